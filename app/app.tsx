@@ -1,37 +1,40 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useRef } from 'react';
 // Alternatively, you can import from '@takeshape/use-cap' instead and use the actual lib
 // that will be published, but it is less convenient during development due to
 // lack of hmr. Useful for testing whether wasm / worker bundling works as expected.
 // import { useCap } from '@takeshape/use-cap';
+import type { CapError } from '../lib/errors.ts';
 import { useCap } from '../lib/use-cap.ts';
 import './app.css';
 
 const App = () => {
   const resetRef = useRef<(() => void) | null>(null);
 
-  const handleError = useCallback((message: string) => {
+  const handleError = useCallback((error: CapError) => {
     resetRef.current?.();
-    console.warn('Protection token was cleared.', message);
+    console.warn('Protection token was cleared.', error.code, error.message);
   }, []);
 
-  const { solve, reset, solving, progress, error, token } = useCap({
+  const { reset, solving, progress, progressDetail, token } = useCap({
     endpoint: import.meta.env.VITE_CAP_ENDPOINT,
+    trigger: 'mount',
     onError: handleError
   });
 
   resetRef.current = reset;
 
-  useEffect(() => {
-    if (!token && !error) {
-      void solve();
-    }
-  }, [solve, token, error]);
-
   return (
     <div className="cap-container">
       <h1>use-cap</h1>
       <div>Solving: {solving ? 'true' : 'false'}</div>
       <div>Progress: {progress ?? '???'}</div>
+      <div>Phase: {progressDetail?.phase ?? '???'}</div>
+      <div>
+        ETA:{' '}
+        {progressDetail?.etaMs != null
+          ? `${Math.ceil(progressDetail.etaMs / 1000)}s`
+          : '???'}
+      </div>
       <div>Token: {token?.token ?? '???'}</div>
       <div>Expires: {token?.expires ?? '???'}</div>
 
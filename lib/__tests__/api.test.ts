@@ -1,10 +1,23 @@
 import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   getLocalStorageItem,
+  getLocalStorageItems,
+  getStorageItem,
+  getTokenStorage,
   removeLocalStorageItem,
-  setLocalStorageItem
+  removeStorageItem,
+  resolveEndpoints,
+  setLocalStorageItem,
+  setLocalStorageItems,
+  setStorageItem
 } from '../api.ts';
 import { EXPIRES_BUFFER_IN_MS } from '../constants.ts';
+import { CapConfigError } from '../errors.ts';
+import {
+  type CapStorage,
+  createMemoryStorage,
+  localStorageAdapter
+} from '../storage.ts';
 import type { CapToken } from '../types.ts';
 
 // Mock localStorage
@@ -139,7 +152,7 @@ describe('localStorage functions', () => {
 
       expect(result).toBeNull();
       expect(consoleSpy).toHaveBeenCalledWith(
-        '[cap] Failed to parse token from localStorage'
+        '[cap] Failed to parse token from storage'
       );
     });
 
@@ -219,6 +232,58 @@ describe('localStorage functions', () => {
     });
   });
 
+  describe('getLocalStorageItems', () => {
+    it('should return an empty array when item does not exist', () => {
+      expect(getLocalStorageItems(testKey)).toEqual([]);
+    });
+
+    it('should round-trip tokens stored with setLocalStorageItems', () => {
+      const tokens: CapToken[] = [
+        { token: 'first-token', expires: Date.now() + 60000 },
+        { token: 'second-token', expires: Date.now() + 120000 }
+      ];
+
+      setLocalStorageItems(testKey, tokens);
+
+      expect(getLocalStorageItems(testKey)).toEqual(tokens);
+    });
+
+    it('should drop expired and invalid tokens', () => {
+      const valid: CapToken = {
+        token: 'valid-token',
+        expires: Date.now() + 60000
+      };
+
+      localStorageMock.getItem.mockReturnValueOnce(
+        JSON.stringify([
+          valid,
+          { token: 'expired-token', expires: Date.now() - 60000 },
+          { token: 123, expires: Date.now() + 60000 },
+          null
+        ])
+      );
+
+      expect(getLocalStorageItems(testKey)).toEqual([valid]);
+    });
+
+    it('should return an empty array when stored item is not an array', () => {
+      localStorageMock.getItem.mockReturnValueOnce(
+        JSON.stringify({ token: 'single-token', expires: Date.now() + 60000 })
+      );
+
+      expect(getLocalStorageItems(testKey)).toEqual([]);
+    });
+
+    it('should return an empty array when stored item is not valid JSON', () => {
+      localStorageMock.getItem.mockReturnValueOnce('invalid-json[');
+
+      expect(getLocalStorageItems(testKey)).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[cap] Failed to parse tokens from storage'
+      );
+    });
+  });
+
   describe('removeLocalStorageItem', () => {
     it('should remove item from localStorage', () => {
       removeLocalStorageItem(testKey);
@@ -239,6 +304,76 @@ describe('localStorage functions', () => {
     });
   });
 
+  describe('storage adapters', () => {
+    const validToken: CapToken = {
+      token: 'adapter-token',
+      expires: Date.now() + 60000
+    };
+
+    it('should pick the storage option over localStorage', () => {
+      const storage = createMemoryStorage();
+
+      expect(getTokenStorage({ storage, localStorageEnabled: true })).toBe(
+        storage
+      );
+      expect(getTokenStorage({ localStorageEnabled: true })).toBe(
+        localStorageAdapter
+      );
+      expect(getTokenStorage({ localStorageEnabled: false })).toBeUndefined();
+    });
+
+    it('should validate tokens from sync adapters', () => {
+      const storage = createMemoryStorage();
+
+      setStorageItem(storage, testKey, validToken);
+      expect(getStorageItem(storage, testKey)).toEqual(validToken);
+
+      storage.setItem(
+        testKey,
+        JSON.stringify({ token: 'expired', expires: Date.now() - 1000 })
+      );
+      expect(getStorageItem(storage, testKey)).toBeNull();
+    });
+
+    it('should validate tokens from async adapters', async () => {
+      const memory = createMemoryStorage();
+      const storage: CapStorage = {
+        getItem: async (key) => memory.getItem(key),
+        setItem: async (key, value) => memory.setItem(key, value),
+        removeItem: async (key) => memory.removeItem(key)
+      };
+
+      await setStorageItem(storage, testKey, validToken);
+      await expect(getStorageItem(storage, testKey)).resolves.toEqual(
+        validToken
+      );
+
+      memory.setItem(testKey, '{"token":42}');
+      await expect(getStorageItem(storage, testKey)).resolves.toBeNull();
+    });
+
+    it('should not throw when the adapter throws', async () => {
+      const storage: CapStorage = {
+        getItem: () => {
+          throw new Error('SecurityError');
+        },
+        setItem: () => {
+          throw new Error('QuotaExceededError');
+        },
+        removeItem: () => Promise.reject(new Error('SecurityError'))
+      };
+
+      expect(getStorageItem(storage, testKey)).toBeNull();
+      expect(() => setStorageItem(storage, testKey, validToken)).not.toThrow();
+      await expect(
+        removeStorageItem(storage, testKey)
+      ).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[cap] Failed to save token to storage'
+      );
+    });
+  });
+
   describe('integration scenarios', () => {
     it('should handle full workflow: set, get, remove', () => {
       const token: CapToken = {
@@ -279,3 +414,88 @@ describe('localStorage functions', () => {
     });
   });
 });
+
+describe('resolveEndpoints', () => {
+  it('should resolve the paths against a base URL with or without a trailing slash', () => {
+    const expected = {
+      challengeUrl: 'https://api.example.com/cap/challenge',
+      redeemUrl: 'https://api.example.com/cap/redeem'
+    };
+
+    expect(
+      resolveEndpoints({ endpoint: 'https://api.example.com/cap/' })
+    ).toEqual(expected);
+    expect(
+      resolveEndpoints({ endpoints: 'https://api.example.com/cap' })
+    ).toEqual(expected);
+    expect(
+      resolveEndpoints({
+        endpoints: { baseUrl: new URL('https://api.example.com/cap') }
+      })
+    ).toEqual(expected);
+  });
+
+  it('should resolve relative URLs against the page', () => {
+    expect(resolveEndpoints({ endpoint: '/cap/' })).toEqual({
+      challengeUrl: new URL('/cap/challenge', location.href).href,
+      redeemUrl: new URL('/cap/redeem', location.href).href
+    });
+  });
+
+  it('should add the site key to the path', () => {
+    expect(
+      resolveEndpoints({
+        endpoints: { baseUrl: 'https://cap.example.com', siteKey: 'd9256640cb' }
+      })
+    ).toEqual({
+      challengeUrl: 'https://cap.example.com/d9256640cb/challenge',
+      redeemUrl: 'https://cap.example.com/d9256640cb/redeem'
+    });
+  });
+
+  it('should prefer explicit URLs', () => {
+    expect(
+      resolveEndpoints({
+        endpoints: {
+          baseUrl: 'https://api.example.com/cap/',
+          challengeUrl: 'https://proxy.example.com/pow/new'
+        }
+      })
+    ).toEqual({
+      challengeUrl: 'https://proxy.example.com/pow/new',
+      redeemUrl: 'https://api.example.com/cap/redeem'
+    });
+    expect(
+      resolveEndpoints({
+        endpoints: {
+          challengeUrl: 'https://proxy.example.com/pow/new',
+          redeemUrl: 'https://proxy.example.com/pow/verify'
+        }
+      }).redeemUrl
+    ).toBe('https://proxy.example.com/pow/verify');
+  });
+
+  it.each([
+    [{}, 'Missing endpoint'],
+    [{ endpoint: '' }, 'Missing endpoint'],
+    [
+      { endpoints: { challengeUrl: 'https://api.example.com/challenge' } },
+      'Missing endpoint'
+    ],
+    [
+      {
+        endpoint: 'https://api.example.com/',
+        endpoints: 'https://api.example.com/'
+      },
+      'not both'
+    ],
+    [{ endpoint: 'localhost:3000/cap/' }, 'not an http(s) URL'],
+    [
+      { endpoints: { baseUrl: 'https://cap.example.com', siteKey: 'a/b' } },
+      'Invalid siteKey'
+    ]
+  ])('should reject invalid configuration %#', (context, message) => {
+    expect(() => resolveEndpoints(context)).toThrow(CapConfigError);
+    expect(() => resolveEndpoints(context)).toThrow(message);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor
+} from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CapHiddenInput } from '../cap-hidden-input.tsx';
+import { withCapToken } from '../form-action.ts';
+import type { CapHiddenInputProps } from '../index.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import { createMockWorker, mockFetch } from './helpers.ts';
+
+function renderForm(props: CapHiddenInputProps) {
+  const { container } = render(
+    <form>
+      <input aria-label="Email" />
+      <CapHiddenInput {...props} />
+    </form>
+  );
+  return container.querySelector('form') as HTMLFormElement;
+}
+
+describe('CapHiddenInput', () => {
+  const defaultProps = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as unknown as typeof Worker;
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    cleanup();
+    disposeWorkers();
+    vi.clearAllMocks();
+  });
+
+  test('should solve once the form is used and submit the token', async () => {
+    const form = renderForm({
+      ...defaultProps,
+      tokenKey: 'hidden-input-key'
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.focus(screen.getByLabelText('Email'));
+
+    await waitFor(() => {
+      expect(new FormData(form).get('cap-token')).toBe('solved-token');
+    });
+  });
+
+  test('should use the given field name and trigger', async () => {
+    const form = renderForm({
+      ...defaultProps,
+      tokenKey: 'hidden-input-name-key',
+      name: 'captcha',
+      trigger: 'mount'
+    });
+
+    await waitFor(() => {
+      expect(new FormData(form).get('captcha')).toBe('solved-token');
+    });
+  });
+
+  test('should solve again on intent after withCapToken used the token', async () => {
+    const props = { ...defaultProps, tokenKey: 'hidden-input-submit-key' };
+    const form = renderForm(props);
+    const submit = withCapToken(
+      (formData: FormData) => formData.get('cap-token'),
+      props
+    );
+    const getFieldValue = () => new FormData(form).get('cap-token');
+
+    for (const submitCount of [1, 2]) {
+      fireEvent.keyDown(screen.getByLabelText('Email'));
+      await waitFor(() => {
+        expect(getFieldValue()).toBe('solved-token');
+      });
+
+      // The token solved on intent is submitted, nothing is solved at submit
+      expect(await submit(new FormData(form))).toBe('solved-token');
+      expect(global.fetch).toHaveBeenCalledTimes(submitCount * 2);
+      await waitFor(() => {
+        expect(getFieldValue()).toBe('');
+      });
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { act, type ReactNode } from 'react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CapProvider, useCapContext } from '../cap-provider.tsx';
+import { CapConfigError } from '../errors.ts';
+import type { CapProviderProps } from '../index.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import {
+  createMockWorker,
+  mockExpires,
+  mockFetch,
+  mockRedeemResponse
+} from './helpers.ts';
+
+// Two components sharing the provider, like a header badge and a form
+function renderConsumers(props: Omit<CapProviderProps, 'children'>) {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <CapProvider {...props}>{children}</CapProvider>
+  );
+
+  return renderHook(() => ({ badge: useCapContext(), form: useCapContext() }), {
+    wrapper
+  });
+}
+
+describe('CapProvider', () => {
+  const defaultProps = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as unknown as typeof Worker;
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.clearAllMocks();
+  });
+
+  test('should show a solve started by one component in every other', async () => {
+    const { result } = renderConsumers({
+      ...defaultProps,
+      tokenKey: 'provider-solve-key'
+    });
+
+    let solving: Promise<unknown> | undefined;
+    act(() => {
+      solving = result.current.form.solve();
+    });
+    expect(result.current.badge.solving).toBe(true);
+
+    await act(async () => {
+      await solving;
+    });
+
+    expect(result.current.badge.solving).toBe(false);
+    expect(result.current.badge.token).toEqual(mockRedeemResponse);
+    expect(result.current.form.token).toEqual(mockRedeemResponse);
+    expect(result.current.badge.progress).toBe(100);
+  });
+
+  test('should clear every component on reset', async () => {
+    const onReset = vi.fn();
+    const { result } = renderConsumers({
+      ...defaultProps,
+      tokenKey: 'provider-reset-key',
+      onReset
+    });
+
+    await act(async () => {
+      await result.current.form.solve();
+    });
+    act(() => {
+      result.current.badge.reset();
+    });
+
+    expect(result.current.form.token).toBeNull();
+    expect(result.current.badge.token).toBeNull();
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+
+  test('should share a solve between components', async () => {
+    const { result } = renderConsumers({
+      ...defaultProps,
+      tokenKey: 'provider-shared-key'
+    });
+
+    await act(async () => {
+      await Promise.all([
+        result.current.badge.solve(),
+        result.current.form.solve()
+      ]);
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should load the stored token', async () => {
+    localStorage.setItem(
+      'provider-stored-key',
+      JSON.stringify({ token: 'stored-token', expires: mockExpires })
+    );
+
+    const { result } = renderConsumers({
+      endpoint: defaultProps.endpoint,
+      tokenKey: 'provider-stored-key'
+    });
+
+    await waitFor(() => {
+      expect(result.current.form.token?.token).toBe('stored-token');
+    });
+    localStorage.removeItem('provider-stored-key');
+  });
+
+  test('should keep the functions while the options stay the same', () => {
+    const { result, rerender } = renderConsumers({
+      ...defaultProps,
+      tokenKey: 'provider-stable-key'
+    });
+    const { solve, consume, getFreshToken, reset } = result.current.form;
+
+    rerender();
+
+    expect(result.current.form.solve).toBe(solve);
+    expect(result.current.form.consume).toBe(consume);
+    expect(result.current.form.getFreshToken).toBe(getFreshToken);
+    expect(result.current.form.reset).toBe(reset);
+  });
+
+  test('should throw outside a provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useCapContext())).toThrow(CapConfigError);
+  });
+});
@@ -0,0 +1,134 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CapWidget } from '../cap-widget.tsx';
+import type { CapWidgetProps } from '../index.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import { createMockWorker, mockFetch } from './helpers.ts';
+
+function renderWidget(props: CapWidgetProps) {
+  const { container, unmount } = render(
+    <form>
+      <CapWidget {...props} />
+    </form>
+  );
+  return {
+    form: container.querySelector('form') as HTMLFormElement,
+    widget: container.querySelector('[role="checkbox"]') as HTMLButtonElement,
+    status: container.querySelector('output') as HTMLOutputElement,
+    unmount
+  };
+}
+
+describe('CapWidget', () => {
+  const defaultProps = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as unknown as typeof Worker;
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.clearAllMocks();
+  });
+
+  test('should solve on click and submit the token', async () => {
+    const { form, widget, status, unmount } = renderWidget({
+      ...defaultProps,
+      tokenKey: 'widget-solve-key'
+    });
+
+    expect(widget.tagName).toBe('BUTTON');
+    expect(widget.getAttribute('aria-checked')).toBe('false');
+    expect(widget.textContent).toBe("I'm a human");
+    expect(status.textContent).toBe('');
+
+    fireEvent.click(widget);
+    expect(widget.getAttribute('aria-busy')).toBe('true');
+    expect(widget.textContent).toBe('Verifying…');
+
+    await waitFor(() => {
+      expect(widget.getAttribute('aria-checked')).toBe('true');
+    });
+    expect(widget.dataset.state).toBe('solved');
+    expect(status.textContent).toBe(
+      "We have verified you're a human, you may now continue"
+    );
+    expect(new FormData(form).get('cap-token')).toBe('solved-token');
+
+    fireEvent.click(widget);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    unmount();
+  });
+
+  test('should show errors and try again on click', async () => {
+    global.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    ) as unknown as typeof fetch;
+    const { widget, status, unmount } = renderWidget({
+      ...defaultProps,
+      tokenKey: 'widget-error-key',
+      retry: { maxAttempts: 1 }
+    });
+
+    fireEvent.click(widget);
+    await waitFor(() => {
+      expect(widget.dataset.state).toBe('error');
+    });
+    expect(widget.getAttribute('aria-checked')).toBe('false');
+    expect(status.textContent).toBe('An error occurred, please try again');
+
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+    fireEvent.click(widget);
+    await waitFor(() => {
+      expect(widget.dataset.state).toBe('solved');
+    });
+    unmount();
+  });
+
+  test('should not submit an expired token', async () => {
+    localStorage.setItem(
+      'widget-expired-key',
+      JSON.stringify({ token: 'stored-token', expires: Date.now() + 100 })
+    );
+    const { form, widget, unmount } = renderWidget({
+      endpoint: defaultProps.endpoint,
+      tokenKey: 'widget-expired-key',
+      refreshBufferMs: 0,
+      refreshAutomatically: false
+    });
+
+    expect(new FormData(form).get('cap-token')).toBe('stored-token');
+    await waitFor(() => {
+      expect(widget.dataset.state).toBe('expired');
+    });
+    expect(new FormData(form).get('cap-token')).toBe('');
+
+    localStorage.removeItem('widget-expired-key');
+    unmount();
+  });
+
+  test('should use the given strings and field name', async () => {
+    const { form, widget, unmount } = renderWidget({
+      ...defaultProps,
+      tokenKey: 'widget-i18n-key',
+      name: 'captcha',
+      i18n: { initialState: 'Je suis humain', solvedLabel: 'Vérifié' }
+    });
+
+    expect(widget.textContent).toBe('Je suis humain');
+    expect(
+      screen.getByRole('checkbox', { name: "Click to verify you're a human" })
+    ).toBe(widget);
+
+    fireEvent.click(widget);
+    await waitFor(() => {
+      expect(widget.textContent).toBe('Vérifié');
+    });
+    expect(new FormData(form).get('captcha')).toBe('solved-token');
+    unmount();
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  type CrossTabListener,
+  type CrossTabTransport,
+  createTabCoordinator
+} from '../channel.ts';
+import { CROSS_TAB_LEASE_IN_MS } from '../constants.ts';
+import { CapAbortError, CapError, CapRedeemRejectedError } from '../errors.ts';
+import type { CapToken } from '../types.ts';
+
+// Connects every transport created from the same bus, like tabs sharing a
+// BroadcastChannel
+function createBus() {
+  const listeners = new Set<CrossTabListener>();
+
+  return (): CrossTabTransport => ({
+    post: (message) => {
+      for (const listener of listeners) {
+        setTimeout(() => listener(message), 0);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  });
+}
+
+const token: CapToken = {
+  token: 'shared-token',
+  expires: Date.now() + 3600000
+};
+
+describe('channel', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createTabCoordinator', () => {
+    it('should let only one tab solve and share its token', async () => {
+      const createTransport = createBus();
+      const first = createTabCoordinator(createTransport(), 'a');
+      const second = createTabCoordinator(createTransport(), 'b');
+      const solveFirst = vi.fn(async () => token);
+      const solveSecond = vi.fn(async () => token);
+
+      const results = await Promise.all([
+        first.run('key', solveFirst),
+        second.run('key', solveSecond)
+      ]);
+
+      expect(results).toEqual([token, token]);
+      expect(solveFirst.mock.calls.length + solveSecond.mock.calls.length).toBe(
+        1
+      );
+    });
+
+    it('should wait for a tab that is already solving', async () => {
+      const createTransport = createBus();
+      const leader = createTabCoordinator(createTransport(), 'leader');
+      const follower = createTabCoordinator(createTransport(), 'follower');
+      const solveFollower = vi.fn(async () => token);
+
+      const leading = leader.run(
+        'key',
+        () =>
+          new Promise<CapToken>((resolve) => setTimeout(resolve, 100, token))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      await expect(follower.run('key', solveFollower)).resolves.toEqual(token);
+      await expect(leading).resolves.toEqual(token);
+      expect(solveFollower).not.toHaveBeenCalled();
+    });
+
+    it('should wait for a tab that claimed before this one opened', async () => {
+      const createTransport = createBus();
+      const leader = createTabCoordinator(createTransport(), 'leader');
+      const solveLeader = vi.fn(
+        () =>
+          new Promise<CapToken>((resolve) => setTimeout(resolve, 300, token))
+      );
+      const solveLate = vi.fn(async () => token);
+
+      const leading = leader.run('key', solveLeader);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      // Never saw the leader's claim, which is only repeated every heartbeat
+      const late = createTabCoordinator(createTransport(), 'late');
+
+      await expect(late.run('key', solveLate)).resolves.toEqual(token);
+      await expect(leading).resolves.toEqual(token);
+      expect(solveLeader).toHaveBeenCalledTimes(1);
+      expect(solveLate).not.toHaveBeenCalled();
+    });
+
+    it('should pass the leader error on to waiting tabs', async () => {
+      const createTransport = createBus();
+      const leader = createTabCoordinator(createTransport(), 'leader');
+      const follower = createTabCoordinator(createTransport(), 'follower');
+
+      const leading = leader.run(
+        'key',
+        () =>
+          new Promise<CapToken>((_resolve, reject) =>
+            setTimeout(reject, 100, new CapRedeemRejectedError('Invalid'))
+          )
+      );
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      const following = follower.run('key', async () => token);
+
+      await expect(leading).rejects.toBeInstanceOf(CapRedeemRejectedError);
+      await expect(following).rejects.toBeInstanceOf(CapError);
+      await expect(following).rejects.toMatchObject({
+        code: 'redeem-rejected',
+        message: 'Invalid'
+      });
+    });
+
+    it('should take over when the leader aborts', async () => {
+      const createTransport = createBus();
+      const leader = createTabCoordinator(createTransport(), 'leader');
+      const follower = createTabCoordinator(createTransport(), 'follower');
+      const controller = new AbortController();
+      const solveFollower = vi.fn(async () => token);
+
+      const leading = leader.run(
+        'key',
+        () =>
+          new Promise<CapToken>((_resolve, reject) => {
+            controller.signal.addEventListener('abort', () =>
+              reject(new CapAbortError())
+            );
+          }),
+        controller.signal
+      );
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      const following = follower.run('key', solveFollower);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(leading).rejects.toBeInstanceOf(CapAbortError);
+      await expect(following).resolves.toEqual(token);
+      expect(solveFollower).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take over when the leader stops sending heartbeats', async () => {
+      vi.useFakeTimers();
+
+      const createTransport = createBus();
+      const follower = createTabCoordinator(createTransport(), 'follower');
+      const ghost = createTransport();
+      const solveFollower = vi.fn(async () => token);
+
+      // A tab that claims the key and then disappears
+      ghost.post({ type: 'claim', tokenKey: 'key', tabId: 'ghost', at: 0 });
+      await vi.advanceTimersByTimeAsync(1);
+
+      const following = follower.run('key', solveFollower);
+      await vi.advanceTimersByTimeAsync(CROSS_TAB_LEASE_IN_MS + 100);
+
+      await expect(following).resolves.toEqual(token);
+      expect(solveFollower).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify subscribers about other tabs only', async () => {
+      const createTransport = createBus();
+      const first = createTabCoordinator(createTransport(), 'a');
+      const second = createTabCoordinator(createTransport(), 'b');
+      const firstListener = vi.fn();
+      const secondListener = vi.fn();
+      first.subscribe(firstListener);
+      second.subscribe(secondListener);
+
+      first.broadcastReset('key');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(firstListener).not.toHaveBeenCalled();
+      expect(secondListener).toHaveBeenCalledWith({
+        type: 'reset',
+        tokenKey: 'key',
+        tabId: 'a'
+      });
+    });
+  });
+});
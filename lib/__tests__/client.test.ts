@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { createCapClient } from '../client.ts';
+import { CapAbortError, CapNetworkError } from '../errors.ts';
+import type { CapStatus } from '../types.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import {
+  createMockWorker,
+  mockExpires,
+  mockFetch,
+  mockRedeemResponse
+} from './helpers.ts';
+
+// The shared mock server, redeeming with `redeemResponse` instead
+const createMockFetch = (redeemResponse: object) => (url: string) =>
+  url.includes('challenge')
+    ? mockFetch(url)
+    : Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(redeemResponse)
+      });
+
+describe('createCapClient', () => {
+  const defaultOptions = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false,
+    refreshAutomatically: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as any;
+    global.fetch = vi.fn(mockFetch) as any;
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  test('should emit every status of a solve', async () => {
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-status-key'
+    });
+    const statuses: CapStatus[] = [];
+    client.subscribe(() => {
+      const { status } = client.getState();
+      if (statuses.at(-1) !== status) {
+        statuses.push(status);
+      }
+    });
+
+    expect(client.getState().status).toBe('idle');
+    const token = await client.solve();
+
+    expect(token).toEqual(mockRedeemResponse);
+    expect(statuses).toEqual(['fetching', 'solving', 'redeeming', 'solved']);
+    expect(client.getState()).toMatchObject({
+      token: mockRedeemResponse,
+      solving: false,
+      progress: 100
+    });
+    client.dispose();
+  });
+
+  test('should report errors in the state', async () => {
+    global.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    ) as any;
+    const onError = vi.fn();
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-error-key',
+      onError
+    });
+    client.subscribe(() => {});
+
+    expect(await client.solve()).toBeUndefined();
+    expect(client.getState().status).toBe('error');
+    expect(client.getState().error).toBeInstanceOf(CapNetworkError);
+    expect(onError).toHaveBeenCalledWith(client.getState().error);
+    client.dispose();
+  });
+
+  test('should mark the token as expired when it is not replaced', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    global.fetch = vi.fn(
+      createMockFetch({ ...mockRedeemResponse, expires: Date.now() + 60_000 })
+    ) as any;
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-expiry-key'
+    });
+    client.subscribe(() => {});
+
+    const solving = client.solve();
+    await vi.advanceTimersByTimeAsync(100);
+    await solving;
+    expect(client.getState().status).toBe('solved');
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(client.getState().status).toBe('expired');
+    client.dispose();
+  });
+
+  test('should go back to idle on reset', async () => {
+    const onReset = vi.fn();
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-reset-key',
+      onReset
+    });
+    const listener = vi.fn();
+    client.subscribe(listener);
+
+    await client.solve();
+    client.reset();
+
+    expect(client.getState()).toMatchObject({ status: 'idle', token: null });
+    expect(onReset).toHaveBeenCalled();
+
+    listener.mockClear();
+    client.dispose();
+    client.reset();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should solve on intent within a bound element', async () => {
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-bind-key'
+    });
+    const form = document.createElement('form');
+    const unbind = client.bind(form);
+
+    form.dispatchEvent(new Event('pointerdown'));
+    form.dispatchEvent(new Event('keydown'));
+    expect(await client.solve()).toEqual(mockRedeemResponse);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    unbind();
+    client.dispose();
+  });
+
+  test('should keep solving for callers that did not abort', async () => {
+    const client = createCapClient({
+      ...defaultOptions,
+      tokenKey: 'client-abort-key'
+    });
+    const controller = new AbortController();
+
+    const first = client.solve({ signal: controller.signal });
+    const second = client.solve();
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(CapAbortError);
+    await expect(second).resolves.toEqual(mockRedeemResponse);
+    expect(client.getState().token).toEqual(mockRedeemResponse);
+    client.dispose();
+  });
+
+  test('should read the stored token again for another tokenKey', async () => {
+    localStorage.setItem(
+      'client-other-key',
+      JSON.stringify({ token: 'other-token', expires: mockExpires })
+    );
+    const client = createCapClient({
+      endpoint: defaultOptions.endpoint,
+      tokenKey: 'client-first-key'
+    });
+    client.subscribe(() => {});
+    expect(client.getState().token).toBeNull();
+
+    client.setOptions({
+      endpoint: defaultOptions.endpoint,
+      tokenKey: 'client-other-key'
+    });
+    expect(client.getState().token?.token).toBe('other-token');
+
+    localStorage.removeItem('client-other-key');
+    client.dispose();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CapAbortError,
+  CapError,
+  CapNetworkError,
+  CapRedeemRejectedError,
+  CapWorkerTimeoutError,
+  shareTask,
+  throwIfAborted,
+  toCapError
+} from '../errors.ts';
+
+describe('errors', () => {
+  describe('CapError subclasses', () => {
+    it('should set code, phase, cause and status', () => {
+      const cause = new TypeError('Failed to fetch');
+      const error = new CapNetworkError('Failed to fetch', {
+        phase: 'redeem',
+        cause,
+        status: 503
+      });
+
+      expect(error).toBeInstanceOf(CapError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('CapNetworkError');
+      expect(error.code).toBe('network');
+      expect(error.phase).toBe('redeem');
+      expect(error.cause).toBe(cause);
+      expect(error.status).toBe(503);
+    });
+
+    it('should use a fixed phase where the error can only happen once', () => {
+      expect(new CapWorkerTimeoutError('Worker timeout').phase).toBe('solve');
+      expect(new CapRedeemRejectedError('Invalid solution').phase).toBe(
+        'redeem'
+      );
+    });
+
+    it('should say how far a timed out solve got', () => {
+      const error = new CapWorkerTimeoutError('Solve timeout', {
+        timeout: 'deadline',
+        completed: 3,
+        total: 50,
+        elapsedMs: 12_000
+      });
+
+      expect(error).toMatchObject({
+        code: 'worker-timeout',
+        phase: 'solve',
+        timeout: 'deadline',
+        completed: 3,
+        total: 50,
+        elapsedMs: 12_000
+      });
+      expect(new CapWorkerTimeoutError('Worker timeout').timeout).toBe(
+        'challenge'
+      );
+    });
+
+    it('should expose the abort reason', () => {
+      const error = new CapAbortError('unmounted');
+
+      expect(error.code).toBe('aborted');
+      expect(error.reason).toBe('unmounted');
+      expect(error.cause).toBe('unmounted');
+    });
+  });
+
+  describe('toCapError', () => {
+    it('should return CapErrors unchanged', () => {
+      const error = new CapWorkerTimeoutError('Worker timeout');
+
+      expect(toCapError(error, 'challenge')).toBe(error);
+    });
+
+    it('should wrap other values as unknown errors', () => {
+      const error = toCapError('boom', 'redeem');
+
+      expect(error).toBeInstanceOf(CapError);
+      expect(error.code).toBe('unknown');
+      expect(error.phase).toBe('redeem');
+      expect(error.message).toBe('boom');
+      expect(error.cause).toBe('boom');
+    });
+  });
+
+  describe('throwIfAborted', () => {
+    it('should do nothing without an aborted signal', () => {
+      expect(() => throwIfAborted()).not.toThrow();
+      expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    });
+
+    it('should throw a CapAbortError for an aborted signal', () => {
+      const controller = new AbortController();
+      controller.abort('stop');
+
+      expect(() => throwIfAborted(controller.signal, 'challenge')).toThrow(
+        CapAbortError
+      );
+    });
+  });
+
+  describe('shareTask', () => {
+    const createTask = () =>
+      shareTask(
+        (signal) =>
+          new Promise<string>((resolve, reject) => {
+            setTimeout(resolve, 20, 'done');
+            signal.addEventListener('abort', () => reject(signal.reason));
+          })
+      );
+
+    it('should keep running while a caller is still waiting', async () => {
+      const task = createTask();
+      const controller = new AbortController();
+
+      const aborted = task.join(controller.signal);
+      const waiting = task.join();
+      controller.abort('stop');
+
+      await expect(aborted).rejects.toBeInstanceOf(CapAbortError);
+      await expect(waiting).resolves.toBe('done');
+    });
+
+    it('should abort once every caller has aborted', async () => {
+      const task = createTask();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const joined = [task.join(first.signal), task.join(second.signal)];
+      first.abort('stop');
+      second.abort('stop');
+
+      await expect(Promise.all(joined)).rejects.toBeInstanceOf(CapAbortError);
+      await expect(task.promise).rejects.toBe('stop');
+    });
+  });
+});
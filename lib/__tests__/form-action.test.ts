@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CapConfigError, CapNetworkError } from '../errors.ts';
+import { withCapToken } from '../form-action.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import { createMockWorker, mockExpires } from './helpers.ts';
+
+// Every redeem hands out a new token, so each submit's token can be told apart
+function createMockFetch() {
+  let redeemed = 0;
+  return (url: string) =>
+    Promise.resolve({
+      ok: true,
+      json: () =>
+        Promise.resolve(
+          url.includes('challenge')
+            ? {
+                challenge: { c: 2, s: 10, d: 2 },
+                token: 'challenge-token',
+                expires: mockExpires
+              }
+            : {
+                success: true,
+                token: `solved-token-${++redeemed}`,
+                expires: mockExpires
+              }
+        )
+    });
+}
+
+describe('withCapToken', () => {
+  const defaultOptions = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as any;
+    global.fetch = vi.fn(createMockFetch()) as any;
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.clearAllMocks();
+  });
+
+  test('should set a fresh token in the form data', async () => {
+    const action = vi.fn((formData: FormData) => formData.get('cap-token'));
+    const submit = withCapToken(action, {
+      ...defaultOptions,
+      tokenKey: 'action-token-key'
+    });
+
+    expect(await submit(new FormData())).toBe('solved-token-1');
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not use a token twice', async () => {
+    const submit = withCapToken(
+      (formData: FormData) => formData.get('captcha'),
+      { ...defaultOptions, tokenKey: 'action-single-key', fieldName: 'captcha' }
+    );
+
+    expect(await submit(new FormData())).toBe('solved-token-1');
+    expect(await submit(new FormData())).toBe('solved-token-2');
+  });
+
+  test('should pass the previous state of useActionState along', async () => {
+    const action = vi.fn(
+      async (previous: { count: number }, _formData: FormData) => ({
+        count: previous.count + 1
+      })
+    );
+    const submit = withCapToken(action, {
+      ...defaultOptions,
+      tokenKey: 'action-state-key'
+    });
+    const formData = new FormData();
+
+    expect(await submit({ count: 1 }, formData)).toEqual({ count: 2 });
+    expect(action).toHaveBeenCalledWith({ count: 1 }, formData);
+  });
+
+  test('should retry once with a new token when it is rejected', async () => {
+    const action = vi.fn((formData: FormData) => ({
+      capTokenRejected: true,
+      token: formData.get('cap-token')
+    }));
+    const submit = withCapToken(action, {
+      ...defaultOptions,
+      tokenKey: 'action-rejected-key'
+    });
+
+    expect(await submit(new FormData())).toEqual({
+      capTokenRejected: true,
+      token: 'solved-token-2'
+    });
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  test('should use a custom rejection check', async () => {
+    const action = vi
+      .fn<(formData: FormData) => { error?: string }>()
+      .mockReturnValueOnce({ error: 'captcha' })
+      .mockReturnValueOnce({});
+    const submit = withCapToken(action, {
+      ...defaultOptions,
+      tokenKey: 'action-custom-key',
+      isTokenRejected: (result) => result.error === 'captcha'
+    });
+
+    expect(await submit(new FormData())).toEqual({});
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reject without running the action when solving fails', async () => {
+    global.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    ) as any;
+    const action = vi.fn();
+    const onError = vi.fn();
+    const submit = withCapToken(action, {
+      ...defaultOptions,
+      tokenKey: 'action-error-key',
+      retry: { maxAttempts: 1 },
+      onError
+    });
+
+    await expect(submit(new FormData())).rejects.toThrow(CapNetworkError);
+    expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+    expect(action).not.toHaveBeenCalled();
+  });
+
+  test('should reject an action without form data', async () => {
+    const submit = withCapToken((value: string) => value, defaultOptions);
+
+    await expect(submit('value')).rejects.toThrow(CapConfigError);
+  });
+});
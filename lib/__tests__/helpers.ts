@@ -0,0 +1,43 @@
+import { vi } from 'vitest';
+
+// Shared by the component tests, which all solve against the same mock server
+
+export const mockExpires = Date.now() + 3_600_000;
+
+export const mockRedeemResponse = {
+  success: true,
+  token: 'solved-token',
+  expires: mockExpires
+};
+
+export function createMockWorker() {
+  const worker = {
+    postMessage: vi.fn(() => {
+      setTimeout(() => {
+        worker.onmessage?.({
+          data: { nonce: 1, found: true, durationMs: '1.00' }
+        });
+      }, 10);
+    }),
+    terminate: vi.fn(),
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    onerror: null
+  };
+  return worker;
+}
+
+export function mockFetch(url: string) {
+  return Promise.resolve({
+    ok: true,
+    json: () =>
+      Promise.resolve(
+        url.includes('challenge')
+          ? {
+              challenge: { c: 2, s: 10, d: 2 },
+              token: 'challenge-token',
+              expires: mockExpires
+            }
+          : mockRedeemResponse
+      )
+  });
+}
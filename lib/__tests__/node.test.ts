@@ -0,0 +1,186 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto';
+import type { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CapAbortError, CapWorkerCrashError } from '../errors.ts';
+import { getCapToken } from '../node.ts';
+import { solveWithNodeCrypto } from '../node-solver.ts';
+import type { CapWorkerMessage, Challenge } from '../types.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+
+const { workers, state } = vi.hoisted(() => ({
+  workers: [] as Array<{
+    postMessage: (message: CapWorkerMessage) => void;
+    terminate: () => Promise<number>;
+    keepsProcessAlive: boolean;
+  }>,
+  state: { respond: true }
+}));
+
+// Solves in the test thread, the real worker script is only built for dist
+vi.mock('node:worker_threads', async () => {
+  const { EventEmitter } = await import('node:events');
+  const { solveWithNodeCrypto } = await import('../node-solver.ts');
+
+  class MockWorker extends EventEmitter {
+    terminate = vi.fn(() => Promise.resolve(0));
+    keepsProcessAlive = true;
+
+    ref() {
+      this.keepsProcessAlive = true;
+    }
+
+    unref() {
+      this.keepsProcessAlive = false;
+    }
+
+    constructor() {
+      super();
+      workers.push(this);
+    }
+
+    postMessage(message: CapWorkerMessage) {
+      if (!state.respond) {
+        return;
+      }
+      setTimeout(() => {
+        this.emit('message', {
+          nonce: solveWithNodeCrypto(message),
+          found: true,
+          durationMs: '1.00'
+        });
+      }, 0);
+    }
+  }
+
+  return { Worker: MockWorker };
+});
+
+const challenges: Challenge[] = [
+  ['salt-0', 'a'],
+  ['salt-1', 'b'],
+  ['salt-2', 'c']
+];
+
+function isSolution([salt, target]: Challenge, nonce: number) {
+  return createHash('sha256')
+    .update(`${salt}${nonce}`)
+    .digest('hex')
+    .startsWith(target);
+}
+
+describe('node', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    workers.length = 0;
+    state.respond = true;
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('challenge')) {
+        return Response.json({
+          challenge: challenges,
+          token: 'challenge-token',
+          expires: Date.now() + 60_000
+        });
+      }
+
+      const { solutions } = JSON.parse(String(init.body));
+      return Response.json({
+        success: challenges.every((challenge, i) =>
+          isSolution(challenge, solutions[i])
+        ),
+        token: 'solved-token',
+        expires: 1234
+      });
+    });
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('solveWithNodeCrypto', () => {
+    it('should find a nonce whose hash starts with the target', () => {
+      const challenge: Challenge = ['salt', '0a2'];
+
+      expect(
+        isSolution(
+          challenge,
+          solveWithNodeCrypto({ salt: challenge[0], target: challenge[1] })
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('getCapToken', () => {
+    it('should fetch, solve and redeem a token', async () => {
+      const onProgress = vi.fn();
+
+      const token = await getCapToken({
+        endpoint: 'https://api.example.com/',
+        workersCount: 2,
+        onProgress
+      });
+
+      expect(token).toEqual({ token: 'solved-token', expires: 1234 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenLastCalledWith(100);
+    });
+
+    it('should not start more workers than challenges', async () => {
+      await getCapToken({
+        endpoint: 'https://api.example.com/',
+        workersCount: 8
+      });
+
+      expect(workers).toHaveLength(3);
+    });
+
+    it('should keep idle workers for later calls without holding the process', async () => {
+      const options = { endpoint: 'https://api.example.com/', workersCount: 2 };
+
+      await getCapToken(options);
+      await getCapToken(options);
+
+      expect(workers).toHaveLength(2);
+      for (const worker of workers) {
+        expect(worker.keepsProcessAlive).toBe(false);
+        expect(worker.terminate).not.toHaveBeenCalled();
+      }
+
+      disposeWorkers();
+      for (const worker of workers) {
+        expect(worker.terminate).toHaveBeenCalled();
+      }
+    });
+
+    it('should reject when a worker fails', async () => {
+      state.respond = false;
+      const promise = getCapToken({
+        endpoint: 'https://api.example.com/',
+        workersCount: 1
+      });
+
+      await vi.waitFor(() => {
+        expect(workers).toHaveLength(1);
+      });
+      (workers[0] as unknown as EventEmitter).emit('error', new Error('boom'));
+
+      await expect(promise).rejects.toBeInstanceOf(CapWorkerCrashError);
+    });
+
+    it('should reject when aborted', async () => {
+      const controller = new AbortController();
+      const promise = getCapToken({
+        endpoint: 'https://api.example.com/',
+        signal: controller.signal
+      });
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(CapAbortError);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProgressDetail, createSolveProgress } from '../progress.ts';
+import type { Challenge } from '../types.ts';
+
+const challenges: Challenge[] = [
+  ['salt-0', 'ab'],
+  ['salt-1', 'cd'],
+  ['salt-2', 'ef'],
+  ['salt-3', '01']
+];
+
+describe('progress', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createProgressDetail', () => {
+    it('should start a phase with nothing measured', () => {
+      expect(createProgressDetail('solve', 2)).toEqual({
+        phase: 'solve',
+        progress: 0,
+        completed: 0,
+        total: 2,
+        durations: [null, null],
+        hashRate: null,
+        etaMs: null
+      });
+    });
+  });
+
+  describe('createSolveProgress', () => {
+    it('should record the duration of each solved challenge', () => {
+      const progress = createSolveProgress(challenges);
+
+      progress.solved(2, 10, 25);
+      const detail = progress.solved(0, 10, 40);
+
+      expect(detail).toMatchObject({
+        phase: 'solve',
+        progress: 50,
+        completed: 2,
+        total: 4,
+        durations: [40, null, 25, null]
+      });
+    });
+
+    it('should measure the hash rate and estimate the time left', () => {
+      vi.useFakeTimers();
+      const progress = createSolveProgress(challenges);
+
+      vi.advanceTimersByTime(1000);
+      // 256 hashes per second, with 3 challenges of 256 hashes left
+      const detail = progress.solved(0, 255, 1000);
+
+      expect(detail.hashRate).toBe(256);
+      expect(detail.etaMs).toBe(3000);
+    });
+
+    it('should not estimate before any time has passed', () => {
+      vi.useFakeTimers();
+      const progress = createSolveProgress(challenges);
+
+      const detail = progress.solved(0, 255, 0);
+
+      expect(detail.hashRate).toBeNull();
+      expect(detail.etaMs).toBeNull();
+    });
+
+    it('should have nothing left once every challenge is solved', () => {
+      vi.useFakeTimers();
+      const progress = createSolveProgress(challenges.slice(0, 1));
+
+      vi.advanceTimersByTime(500);
+      const detail = progress.solved(0, 99, 500);
+
+      expect(detail.progress).toBe(100);
+      expect(detail.hashRate).toBe(200);
+      expect(detail.etaMs).toBe(0);
+    });
+
+    it('should measure the hash rate of a single worker', () => {
+      const progress = createSolveProgress(challenges);
+      expect(progress.getWorkerHashRate()).toBeNull();
+
+      // Two workers solving side by side, 100 hashes in 50ms each
+      progress.solved(0, 99, 50);
+      progress.solved(1, 99, 50);
+
+      expect(progress.getWorkerHashRate()).toBe(2);
+      expect(progress.getCompleted()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CapAbortError,
+  CapNetworkError,
+  CapRedeemRejectedError
+} from '../errors.ts';
+import {
+  getRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  withRetry
+} from '../retry.ts';
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isRetryableStatus', () => {
+    it('should retry timeouts, rate limits and server errors', () => {
+      expect(isRetryableStatus(408)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(500)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it('should not retry other client errors', () => {
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(403)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry network failures without a status', () => {
+      const error = new CapNetworkError('Failed to fetch', {
+        phase: 'challenge'
+      });
+
+      expect(isRetryableError(error)).toBe(true);
+    });
+
+    it('should use retryOnStatus for responses', () => {
+      const error = new CapNetworkError('Failed to redeem token', {
+        phase: 'redeem',
+        status: 400
+      });
+
+      expect(isRetryableError(error)).toBe(false);
+      expect(isRetryableError(error, { retryOnStatus: () => true })).toBe(true);
+    });
+
+    it('should not retry other errors', () => {
+      expect(
+        isRetryableError(new CapRedeemRejectedError('Invalid solution'))
+      ).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to maxDelayMs', () => {
+      const policy = { baseDelayMs: 100, maxDelayMs: 500, jitter: false };
+
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(400);
+      expect(getRetryDelay(policy, 4)).toBe(500);
+    });
+
+    it('should apply full jitter by default', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay({ baseDelayMs: 100 }, 2)).toBe(100);
+    });
+  });
+
+  describe('withRetry', () => {
+    const networkError = new CapNetworkError('Failed to fetch', {
+      phase: 'challenge'
+    });
+
+    it('should run once without a policy', async () => {
+      const fn = vi.fn().mockRejectedValue(networkError);
+
+      await expect(withRetry({ phase: 'challenge' }, fn)).rejects.toBe(
+        networkError
+      );
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry until success', async () => {
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(networkError)
+        .mockResolvedValueOnce('ok');
+
+      await expect(
+        withRetry({ policy: { baseDelayMs: 0 }, phase: 'challenge' }, fn)
+      ).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should stop after maxAttempts', async () => {
+      const fn = vi.fn().mockRejectedValue(networkError);
+
+      await expect(
+        withRetry(
+          { policy: { maxAttempts: 4, baseDelayMs: 0 }, phase: 'challenge' },
+          fn
+        )
+      ).rejects.toBe(networkError);
+      expect(fn).toHaveBeenCalledTimes(4);
+    });
+
+    it('should defer to a custom shouldRetry', async () => {
+      const shouldRetry = vi.fn().mockReturnValue(false);
+      const fn = vi.fn().mockRejectedValue(networkError);
+
+      await expect(
+        withRetry(
+          { policy: { baseDelayMs: 0, shouldRetry }, phase: 'challenge' },
+          fn
+        )
+      ).rejects.toBe(networkError);
+      expect(shouldRetry).toHaveBeenCalledWith(networkError, 1);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry aborts', async () => {
+      const fn = vi.fn().mockRejectedValue(new CapAbortError());
+
+      await expect(
+        withRetry({ policy: { baseDelayMs: 0 }, phase: 'challenge' }, fn)
+      ).rejects.toBeInstanceOf(CapAbortError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort while waiting to retry', async () => {
+      const controller = new AbortController();
+      const fn = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw networkError;
+      });
+
+      await expect(
+        withRetry(
+          {
+            policy: { baseDelayMs: 60_000 },
+            phase: 'challenge',
+            signal: controller.signal
+          },
+          fn
+        )
+      ).rejects.toBeInstanceOf(CapAbortError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { checkChallengeResponse, checkRedeemResponse } from '../schema.ts';
+
+const expires = Date.now() + 60_000;
+
+describe('schema', () => {
+  describe('checkChallengeResponse', () => {
+    it('should accept both challenge shapes', () => {
+      expect(
+        checkChallengeResponse({
+          challenge: { c: 50, s: 32, d: 4 },
+          token: 'token',
+          expires
+        })
+      ).toBeUndefined();
+      expect(
+        checkChallengeResponse({
+          challenge: [
+            ['salt-0', '0a'],
+            ['salt-1', 'FF3']
+          ],
+          token: 'token',
+          expires
+        })
+      ).toBeUndefined();
+    });
+
+    it.each([
+      [null, 'body must be an object, got null'],
+      [{ token: 'token', expires }, 'challenge must be an object or an array'],
+      [
+        { challenge: { c: 0, s: 32, d: 4 }, token: 'token', expires },
+        'challenge.c must be a positive integer, got 0'
+      ],
+      [
+        { challenge: { c: 50, s: 1.5, d: 4 }, token: 'token', expires },
+        'challenge.s must be a positive integer, got 1.5'
+      ],
+      [
+        { challenge: { c: 50, s: 32, d: '4' }, token: 'token', expires },
+        'challenge.d must be a positive integer, got "4"'
+      ],
+      [
+        { challenge: [], token: 'token', expires },
+        'challenge must not be empty'
+      ],
+      [
+        { challenge: [['salt']], token: 'token', expires },
+        'challenge[0] must be a [salt, target] pair'
+      ],
+      [
+        {
+          challenge: [
+            ['salt', 'ab'],
+            [1, 'ab']
+          ],
+          token: 'token',
+          expires
+        },
+        'challenge[1][0] must be a non-empty string, got 1'
+      ],
+      [
+        { challenge: [['salt', 'xyz']], token: 'token', expires },
+        'challenge[0][1] must be a hex string, got "xyz"'
+      ],
+      [
+        { challenge: { c: 1, s: 1, d: 1 }, expires },
+        'token must be a non-empty string, got undefined'
+      ],
+      [
+        { challenge: { c: 1, s: 1, d: 1 }, token: 'token', expires: 'soon' },
+        'expires must be a number, got "soon"'
+      ]
+    ])('should describe invalid response %#', (body, problem) => {
+      expect(checkChallengeResponse(body)).toContain(problem);
+    });
+  });
+
+  describe('checkRedeemResponse', () => {
+    it('should accept successful and rejected redeems', () => {
+      expect(
+        checkRedeemResponse({ success: true, token: 'token', expires })
+      ).toBeUndefined();
+      expect(
+        checkRedeemResponse({ success: false, message: 'Invalid solution' })
+      ).toBeUndefined();
+    });
+
+    it.each([
+      ['ok', 'body must be an object, got "ok"'],
+      [{ token: 'token', expires }, 'success must be a boolean, got undefined'],
+      [{ success: false, message: 42 }, 'message must be a string, got 42'],
+      [
+        { success: true, token: '', expires },
+        'token must be a non-empty string, got ""'
+      ],
+      [
+        { success: true, token: 'token', expires: Number.NaN },
+        'expires must be a number, got NaN'
+      ],
+      [
+        { success: true, token: 'token', expires, timestamp: 'now' },
+        'timestamp must be a number, got "now"'
+      ]
+    ])('should describe invalid response %#', (body, problem) => {
+      expect(checkRedeemResponse(body)).toBe(problem);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createMainThreadSolver, solveWithSubtleCrypto } from '../solver.ts';
+
+async function sha256(input: string) {
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(input)
+  );
+  return new Uint8Array(hash);
+}
+
+describe('solver', () => {
+  describe('solveWithSubtleCrypto', () => {
+    it('should find a nonce whose hash starts with the target', async () => {
+      const nonce = await solveWithSubtleCrypto({ salt: 'salt', target: 'a5' });
+
+      expect(nonce).toBeDefined();
+      const hash = await sha256(`salt${nonce}`);
+      expect(hash[0]).toBe(0xa5);
+    });
+
+    it('should stop between batches', async () => {
+      let batches = 0;
+      const nonce = await solveWithSubtleCrypto(
+        // Practically impossible to find
+        { salt: 'salt', target: 'ffffffffffffffff' },
+        {
+          batchSize: 10,
+          onBatch: async () => {
+            batches++;
+          },
+          isStopped: () => batches === 2
+        }
+      );
+
+      expect(nonce).toBeUndefined();
+      expect(batches).toBe(2);
+    });
+  });
+
+  describe('createMainThreadSolver', () => {
+    it('should post the result like a worker', async () => {
+      const solver = createMainThreadSolver();
+
+      const data = await new Promise<unknown>((resolve) => {
+        solver.onmessage = (event) => resolve(event.data);
+        solver.postMessage({ salt: 'salt', target: 'a5' });
+      });
+
+      expect(data).toEqual({
+        nonce: expect.any(Number),
+        found: true,
+        durationMs: expect.any(String)
+      });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  isPromise,
+  mapMaybePromise,
+  sessionStorageAdapter
+} from '../storage.ts';
+
+describe('storage', () => {
+  describe('mapMaybePromise', () => {
+    it('should stay synchronous for plain values', () => {
+      expect(mapMaybePromise(2, (value) => value * 2)).toBe(4);
+    });
+
+    it('should map resolved values for promises', async () => {
+      const result = mapMaybePromise(Promise.resolve(2), (value) => value * 2);
+
+      expect(isPromise(result)).toBe(true);
+      await expect(result).resolves.toBe(4);
+    });
+  });
+
+  describe('createMemoryStorage', () => {
+    it('should store, read and remove items', () => {
+      const storage = createMemoryStorage();
+
+      expect(storage.getItem('key')).toBeNull();
+
+      storage.setItem('key', 'value');
+      expect(storage.getItem('key')).toBe('value');
+
+      storage.removeItem('key');
+      expect(storage.getItem('key')).toBeNull();
+    });
+
+    it('should keep separate stores per instance', () => {
+      const first = createMemoryStorage();
+      const second = createMemoryStorage();
+
+      first.setItem('key', 'value');
+
+      expect(second.getItem('key')).toBeNull();
+    });
+  });
+
+  describe('sessionStorageAdapter', () => {
+    it('should read and write sessionStorage', () => {
+      sessionStorageAdapter.setItem('session-key', 'value');
+
+      expect(sessionStorage.getItem('session-key')).toBe('value');
+      expect(sessionStorageAdapter.getItem('session-key')).toBe('value');
+
+      sessionStorageAdapter.removeItem('session-key');
+
+      expect(sessionStorage.getItem('session-key')).toBeNull();
+    });
+
+    it('should look up sessionStorage on every call', () => {
+      const getItem = vi.fn().mockReturnValue('mocked');
+      const spy = vi
+        .spyOn(window, 'sessionStorage', 'get')
+        .mockReturnValue({ getItem } as unknown as Storage);
+
+      expect(sessionStorageAdapter.getItem('key')).toBe('mocked');
+      expect(getItem).toHaveBeenCalledWith('key');
+
+      spy.mockRestore();
+    });
+  });
+
+  describe('createIndexedDBStorage', () => {
+    beforeEach(() => {
+      global.indexedDB = new IDBFactory();
+    });
+
+    it('should store, read and remove items', async () => {
+      const storage = createIndexedDBStorage();
+
+      expect(await storage.getItem('key')).toBeNull();
+
+      await storage.setItem('key', 'value');
+      expect(await storage.getItem('key')).toBe('value');
+
+      await storage.removeItem('key');
+      expect(await storage.getItem('key')).toBeNull();
+    });
+
+    it('should keep items across adapters for the same store', async () => {
+      await createIndexedDBStorage().setItem('key', 'value');
+
+      expect(await createIndexedDBStorage().getItem('key')).toBe('value');
+    });
+
+    it('should add a store to an existing database', async () => {
+      const tokens = createIndexedDBStorage({ databaseName: 'shared' });
+      const pool = createIndexedDBStorage({
+        databaseName: 'shared',
+        storeName: 'pool'
+      });
+
+      await tokens.setItem('key', 'token');
+      await pool.setItem('key', 'pooled');
+
+      expect(await tokens.getItem('key')).toBe('token');
+      expect(await pool.getItem('key')).toBe('pooled');
+    });
+
+    it('should add stores opened at the same time', async () => {
+      const adapters = ['first', 'second', 'third'].map((storeName) =>
+        createIndexedDBStorage({ databaseName: 'concurrent', storeName })
+      );
+
+      await Promise.all(
+        adapters.map((adapter, index) => adapter.setItem('key', `${index}`))
+      );
+
+      expect(
+        await Promise.all(adapters.map((adapter) => adapter.getItem('key')))
+      ).toEqual(['0', '1', '2']);
+    });
+  });
+});
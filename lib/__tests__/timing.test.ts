@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TIMEOUT_IN_MS, MAX_WORKERS_COUNT } from '../constants.ts';
+import { CapConfigError } from '../errors.ts';
+import { getWorkersCount, validateTimingOptions } from '../timing.ts';
+
+describe('validateTimingOptions', () => {
+  it('should accept missing and valid options', () => {
+    expect(() => validateTimingOptions({})).not.toThrow();
+    expect(() =>
+      validateTimingOptions({
+        refreshBufferMs: 0,
+        challengeTimeoutMs: 120_000,
+        solveTimeoutMs: 300_000,
+        maxTokenLifetimeMs: 5 * 60_000,
+        workersCount: 1
+      })
+    ).not.toThrow();
+  });
+
+  it.each([
+    [{ refreshBufferMs: -1 }, 'refreshBufferMs must be between 0'],
+    [{ challengeTimeoutMs: 0 }, 'challengeTimeoutMs must be between 1'],
+    [{ solveTimeoutMs: Number.NaN }, 'got NaN'],
+    [{ maxTokenLifetimeMs: MAX_TIMEOUT_IN_MS + 1 }, 'maxTokenLifetimeMs'],
+    [{ workersCount: 0 }, 'workersCount must be a positive integer, got 0'],
+    [{ workersCount: -2 }, 'workersCount must be a positive integer'],
+    [{ workersCount: 1.5 }, 'workersCount must be a positive integer'],
+    [
+      { refreshBufferMs: 60_000, maxTokenLifetimeMs: 60_000 },
+      'refreshBufferMs must be shorter than maxTokenLifetimeMs'
+    ]
+  ])('should reject invalid options %#', (options, message) => {
+    expect(() => validateTimingOptions(options)).toThrow(CapConfigError);
+    expect(() => validateTimingOptions(options)).toThrow(message);
+  });
+});
+
+describe('getWorkersCount', () => {
+  it('should use the available workers unless workersCount is set', () => {
+    expect(getWorkersCount(undefined, 4)).toBe(4);
+    expect(getWorkersCount(2, 4)).toBe(2);
+  });
+
+  it('should cap the count at MAX_WORKERS_COUNT', () => {
+    expect(getWorkersCount(MAX_WORKERS_COUNT + 8, 4)).toBe(MAX_WORKERS_COUNT);
+    expect(getWorkersCount(undefined, 64)).toBe(MAX_WORKERS_COUNT);
+  });
+});
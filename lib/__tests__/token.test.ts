@@ -7,8 +7,30 @@ import {
   test,
   vi
 } from 'vitest';
-import { cancelRefresh, getCapToken } from '../token.ts';
-import type { CapToken, CapWorkerResult, RedeemResponse } from '../types.ts';
+import { MAX_WORKERS_COUNT } from '../constants.ts';
+import {
+  CapAbortError,
+  CapConfigError,
+  CapInvalidExpiryError,
+  CapNetworkError,
+  CapRedeemRejectedError
+} from '../errors.ts';
+import { createMemoryStorage } from '../storage.ts';
+import {
+  cancelRefresh,
+  clearCapTokenPool,
+  consumeCapToken,
+  getCapToken,
+  getCapTokenPool,
+  getFreshCapToken
+} from '../token.ts';
+import type {
+  CapRequest,
+  CapToken,
+  CapWorkerResult,
+  RedeemResponse
+} from '../types.ts';
+import { disposeWorkers } from '../worker-pool.ts';
 
 // Mock Worker
 let mockWorkers: Array<Worker> = [];
@@ -125,6 +147,7 @@ describe('token.ts', () => {
   });
 
   afterEach(() => {
+    disposeWorkers();
     vi.clearAllMocks();
     vi.useRealTimers();
   });
@@ -164,6 +187,38 @@ describe('token.ts', () => {
       expect(onProgress).toHaveBeenCalledWith(100);
     });
 
+    test('should report progress detail for each phase', async () => {
+      const onProgressDetail = vi.fn();
+
+      await getCapToken({
+        ...defaultProps,
+        onProgressDetail,
+        localStorageEnabled: false
+      });
+
+      const details = onProgressDetail.mock.calls.map(([detail]) => detail);
+      expect(details.map((detail) => detail.phase)).toEqual([
+        'challenge',
+        'solve',
+        'solve',
+        'solve',
+        'redeem'
+      ]);
+      expect(details[1]).toMatchObject({
+        completed: 0,
+        total: 2,
+        durations: [null, null]
+      });
+      expect(details[4]).toMatchObject({
+        phase: 'redeem',
+        progress: 100,
+        completed: 2,
+        total: 2,
+        durations: [expect.any(Number), expect.any(Number)],
+        etaMs: 0
+      });
+    });
+
     test('should return cached token when available', async () => {
       const cachedToken: CapToken = {
         token: 'cached-token',
@@ -276,7 +331,14 @@ describe('token.ts', () => {
       });
 
       expect(token).toBeUndefined();
-      expect(onError).toHaveBeenCalledWith('Network error');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'network',
+          phase: 'challenge',
+          message: 'Network error'
+        })
+      );
     });
 
     test('should handle non-Error exceptions', async () => {
@@ -289,12 +351,91 @@ describe('token.ts', () => {
       });
 
       expect(token).toBeUndefined();
-      expect(onError).toHaveBeenCalledWith('String error');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'network', message: 'String error' })
+      );
+    });
+
+    test('should reject a failed challenge response', async () => {
+      const onError = vi.fn();
+      mockFetch.mockImplementation(
+        createMockFetch({ challengeOk: false }) as typeof fetch
+      );
+
+      const token = await getCapToken({
+        ...defaultProps,
+        localStorageEnabled: false,
+        onError
+      });
+
+      expect(token).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'network', phase: 'challenge' })
+      );
+    });
+
+    test('should report the invalid field of a malformed response', async () => {
+      const onError = vi.fn();
+      mockFetch.mockImplementation(
+        createMockFetch({
+          challengeResponse: {
+            ...mockChallengeResponse,
+            challenge: [['salt', 'not-hex']]
+          }
+        }) as typeof fetch
+      );
+
+      await getCapToken({
+        ...defaultProps,
+        localStorageEnabled: false,
+        onError
+      });
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'challenge-parse',
+          message:
+            'Invalid challenge response: challenge[0][1] must be a hex string, got "not-hex"'
+        })
+      );
+      expect(mockWorkers).toHaveLength(0);
+
+      onError.mockClear();
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: { ...mockRedeemResponse, expires: '2030-01-01' }
+        }) as typeof fetch
+      );
+
+      await getCapToken({
+        ...defaultProps,
+        localStorageEnabled: false,
+        onError
+      });
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'redeem-rejected',
+          message:
+            'Invalid redeem response: expires must be a number, got "2030-01-01"'
+        })
+      );
     });
 
     test('should use custom workersCount', async () => {
       const workersCount = 6;
 
+      mockFetch.mockImplementation(
+        createMockFetch({
+          challengeResponse: {
+            ...mockChallengeResponse,
+            challenge: { ...mockChallengeResponse.challenge, c: 24 }
+          }
+        }) as typeof fetch
+      );
+
       // Simulate worker responses
       setTimeout(() => {
         mockWorkers.forEach((worker, index) => {
@@ -321,6 +462,15 @@ describe('token.ts', () => {
     test('should limit workersCount to maximum', async () => {
       const workersCount = 20; // Above MAX_WORKERS_COUNT
 
+      mockFetch.mockImplementation(
+        createMockFetch({
+          challengeResponse: {
+            ...mockChallengeResponse,
+            challenge: { ...mockChallengeResponse.challenge, c: 24 }
+          }
+        }) as typeof fetch
+      );
+
       // Simulate worker responses
       setTimeout(() => {
         mockWorkers.forEach((worker, index) => {
@@ -340,11 +490,19 @@ describe('token.ts', () => {
         workersCount
       });
 
-      // Should be limited to MAX_WORKERS_COUNT (16), but we have multiple tests running
-      expect(global.Worker).toHaveBeenCalledTimes(20);
+      expect(global.Worker).toHaveBeenCalledTimes(MAX_WORKERS_COUNT);
     });
 
     test('should use hardware concurrency when workersCount not provided', async () => {
+      mockFetch.mockImplementation(
+        createMockFetch({
+          challengeResponse: {
+            ...mockChallengeResponse,
+            challenge: { ...mockChallengeResponse.challenge, c: 24 }
+          }
+        }) as typeof fetch
+      );
+
       // Simulate worker responses
       setTimeout(() => {
         mockWorkers.forEach((worker, index) => {
@@ -438,7 +596,13 @@ describe('token.ts', () => {
         onError
       });
 
-      expect(onError).toHaveBeenCalledWith('Invalid expiration time');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapInvalidExpiryError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'invalid-expiry',
+          message: 'Invalid expiration time'
+        })
+      );
     }, 10000);
 
     test('should only solve once when called multiple times simultaneously', async () => {
@@ -502,6 +666,984 @@ describe('token.ts', () => {
     });
   });
 
+  describe('storage', () => {
+    test('should save to and read from a custom storage adapter', async () => {
+      const storage = createMemoryStorage();
+      const props = {
+        endpoint: 'https://api.example.com/',
+        tokenKey: 'storage-key',
+        storage
+      };
+
+      const solved = await getCapToken(props);
+
+      expect(solved).toEqual(mockRedeemResponse);
+      expect(JSON.parse(storage.getItem('storage-key') ?? 'null')).toEqual(
+        mockRedeemResponse
+      );
+
+      const cached = await getCapToken(props);
+
+      expect(cached).toEqual(mockRedeemResponse);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockLocalStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    test('should support async storage adapters', async () => {
+      const cachedToken: CapToken = {
+        token: 'async-cached-token',
+        expires: Date.now() + 1800000
+      };
+      const storage = {
+        getItem: vi.fn(async () => JSON.stringify(cachedToken)),
+        setItem: vi.fn(async () => {}),
+        removeItem: vi.fn(async () => {})
+      };
+
+      const token = await getCapToken({
+        endpoint: 'https://api.example.com/',
+        tokenKey: 'async-storage-key',
+        storage
+      });
+
+      expect(token).toEqual(cachedToken);
+      expect(storage.getItem).toHaveBeenCalledWith('async-storage-key');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false,
+      retry: { baseDelayMs: 0 }
+    };
+
+    test('should retry a failed challenge request', async () => {
+      const onError = vi.fn();
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'retry-challenge-key',
+        onError
+      });
+
+      expect(token).toEqual(mockRedeemResponse);
+      expect(onError).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should not retry a redeem rejected by the server by default', async () => {
+      const onError = vi.fn();
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: { success: false, message: 'Invalid solution' }
+        }) as typeof fetch
+      );
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'retry-redeem-key',
+        onError
+      });
+
+      expect(token).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.any(CapRedeemRejectedError));
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fetch a fresh challenge when redeeming fails', async () => {
+      const onError = vi.fn();
+      mockFetch
+        .mockImplementationOnce(createMockFetch() as typeof fetch)
+        .mockImplementationOnce(
+          createMockFetch({
+            redeemResponse: { success: false, message: 'Expired' }
+          }) as typeof fetch
+        );
+
+      const token = await getCapToken({
+        ...defaultProps,
+        retry: { baseDelayMs: 0, restartOnRedeemFailure: true },
+        tokenKey: 'retry-restart-key',
+        onError
+      });
+
+      expect(token).toEqual(mockRedeemResponse);
+      expect(onError).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.example.com/challenge',
+        'https://api.example.com/redeem',
+        'https://api.example.com/challenge',
+        'https://api.example.com/redeem'
+      ]);
+    });
+
+    test('should not restart when shouldRetry declines', async () => {
+      const onError = vi.fn();
+      const shouldRetry = vi.fn(() => false);
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: { success: false, message: 'Expired' }
+        }) as typeof fetch
+      );
+
+      const token = await getCapToken({
+        ...defaultProps,
+        retry: { baseDelayMs: 0, restartOnRedeemFailure: true, shouldRetry },
+        tokenKey: 'retry-restart-veto-key',
+        onError
+      });
+
+      expect(token).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.any(CapRedeemRejectedError));
+      expect(shouldRetry).toHaveBeenCalledWith(
+        expect.any(CapRedeemRejectedError),
+        1
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('headers', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false
+    };
+
+    const getHeaders = (url: string) =>
+      mockFetch.mock.calls.find(([input]) => input === url)?.[1]?.headers;
+
+    test('should send challenge and redeem headers', async () => {
+      await getCapToken({
+        ...defaultProps,
+        tokenKey: 'headers-key',
+        challengeHeaders: { 'x-challenge': 'a' },
+        redeemHeaders: { 'x-redeem': 'b' }
+      });
+
+      expect(getHeaders('https://api.example.com/challenge')).toEqual({
+        'x-challenge': 'a'
+      });
+      expect(getHeaders('https://api.example.com/redeem')).toEqual({
+        'content-type': 'application/json',
+        'x-redeem': 'b'
+      });
+    });
+
+    test('should call header providers before every request', async () => {
+      let count = 0;
+      const challengeHeaders = vi.fn(async () => ({
+        'x-signature': String(++count)
+      }));
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      await getCapToken({
+        ...defaultProps,
+        tokenKey: 'header-provider-key',
+        retry: { baseDelayMs: 0 },
+        challengeHeaders,
+        redeemHeaders: () => ({ 'x-redeem': 'sync' })
+      });
+
+      expect(challengeHeaders).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1]?.[1]?.headers).toEqual({
+        'x-signature': '2'
+      });
+      expect(getHeaders('https://api.example.com/redeem')).toEqual({
+        'content-type': 'application/json',
+        'x-redeem': 'sync'
+      });
+    });
+  });
+
+  describe('endpoints', () => {
+    test('should request the configured URLs', async () => {
+      await getCapToken({
+        localStorageEnabled: false,
+        tokenKey: 'endpoints-key',
+        endpoints: {
+          challengeUrl: 'https://proxy.example.com/pow/challenge',
+          redeemUrl: 'https://proxy.example.com/pow/redeem'
+        }
+      });
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://proxy.example.com/pow/challenge',
+        'https://proxy.example.com/pow/redeem'
+      ]);
+    });
+
+    test('should reject an invalid configuration before any request', async () => {
+      const cachedToken: CapToken = {
+        token: 'cached-token',
+        expires: Date.now() + 1800000
+      };
+      mockLocalStorage.getItem.mockReturnValue(JSON.stringify(cachedToken));
+
+      await expect(
+        getCapToken({ endpoint: 'localhost:3000/cap/' })
+      ).rejects.toBeInstanceOf(CapConfigError);
+      await expect(consumeCapToken({})).rejects.toBeInstanceOf(CapConfigError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timing options', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/'
+    };
+
+    test('should not use stored tokens within refreshBufferMs of expiring', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem(
+        'buffer-key',
+        JSON.stringify({ token: 'cached-token', expires: Date.now() + 60_000 })
+      );
+
+      expect(
+        await getCapToken({ ...defaultProps, storage, tokenKey: 'buffer-key' })
+      ).toMatchObject({ token: 'cached-token' });
+      expect(
+        await getCapToken({
+          ...defaultProps,
+          storage,
+          tokenKey: 'buffer-key',
+          refreshBufferMs: 5 * 60_000
+        })
+      ).toMatchObject({ token: 'solved-token' });
+    });
+
+    test('should refresh refreshBufferMs before the token expires', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            expires: Date.now() + 5 * 60_000
+          }
+        }) as typeof fetch
+      );
+
+      const solving = getCapToken({
+        ...defaultProps,
+        localStorageEnabled: false,
+        tokenKey: 'refresh-buffer-key',
+        refreshAutomatically: true,
+        refreshBufferMs: 60_000
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      await solving;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(3.5 * 60_000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      // Refreshing fetches a new challenge and redeems it
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      cancelRefresh('refresh-buffer-key');
+    });
+
+    test('should accept tokens up to maxTokenLifetimeMs', async () => {
+      const onError = vi.fn();
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            expires: Date.now() + 2 * 86_400_000
+          }
+        }) as typeof fetch
+      );
+      const props = {
+        ...defaultProps,
+        localStorageEnabled: false,
+        tokenKey: 'lifetime-key',
+        refreshAutomatically: true,
+        onError
+      };
+
+      await getCapToken(props);
+      expect(onError).toHaveBeenCalledWith(expect.any(CapInvalidExpiryError));
+
+      onError.mockClear();
+      await getCapToken({ ...props, maxTokenLifetimeMs: 3 * 86_400_000 });
+      cancelRefresh('lifetime-key');
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    test('should reject invalid timing options before any request', async () => {
+      await expect(
+        getCapToken({ ...defaultProps, challengeTimeoutMs: -1 })
+      ).rejects.toBeInstanceOf(CapConfigError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should reject a workersCount that starts no worker', async () => {
+      await expect(
+        getCapToken({ ...defaultProps, workersCount: 0 })
+      ).rejects.toBeInstanceOf(CapConfigError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pauseWhenHidden', () => {
+    const setVisibility = (state: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    afterEach(() => {
+      setVisibility('visible');
+    });
+
+    test('should hold off a refresh until the page is shown', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            expires: Date.now() + 60_000
+          }
+        }) as typeof fetch
+      );
+
+      const solving = getCapToken({
+        endpoint: 'https://api.example.com/',
+        localStorageEnabled: false,
+        tokenKey: 'hidden-refresh-key',
+        refreshAutomatically: true,
+        pauseWhenHidden: true
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      await solving;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      setVisibility('hidden');
+      await vi.advanceTimersByTimeAsync(2 * 60_000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      // The token expired in the meantime, so it is solved again right away
+      setVisibility('visible');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      cancelRefresh('hidden-refresh-key');
+    });
+
+    test('should drop a held off refresh when it is cancelled', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            expires: Date.now() + 60_000
+          }
+        }) as typeof fetch
+      );
+
+      const solving = getCapToken({
+        endpoint: 'https://api.example.com/',
+        localStorageEnabled: false,
+        tokenKey: 'cancelled-refresh-key',
+        refreshAutomatically: true,
+        pauseWhenHidden: true
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      await solving;
+
+      setVisibility('hidden');
+      await vi.advanceTimersByTimeAsync(2 * 60_000);
+      cancelRefresh('cancelled-refresh-key');
+
+      setVisibility('visible');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('clock skew', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false
+    };
+    const tenMinutes = 10 * 60 * 1000;
+
+    test('should estimate the clock offset from the Date header', async () => {
+      const fetchWithDate = createMockFetch();
+      mockFetch.mockImplementation((async (url: string) => ({
+        ...(await fetchWithDate(url)),
+        headers: new Headers({
+          date: new Date(Date.now() + tenMinutes).toUTCString()
+        })
+      })) as unknown as typeof fetch);
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'date-header-key'
+      });
+
+      expect(token?.clockOffset).toBeGreaterThan(tenMinutes - 1000);
+      expect(token?.clockOffset).toBeLessThan(tenMinutes + 1000);
+    });
+
+    test('should prefer a server timestamp in the body', async () => {
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            timestamp: Date.now() - tenMinutes
+          }
+        }) as typeof fetch
+      );
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'timestamp-key'
+      });
+
+      expect(token?.clockOffset).toBeGreaterThan(-tenMinutes - 100);
+      expect(token?.clockOffset).toBeLessThan(-tenMinutes + 100);
+    });
+
+    test('should apply the offset to stored tokens', async () => {
+      const storage = createMemoryStorage();
+      const props = { ...defaultProps, storage };
+      // Valid by the client clock, but the server is an hour ahead
+      storage.setItem(
+        'ahead-key',
+        JSON.stringify({
+          token: 'expired-token',
+          expires: Date.now() + 30 * 60 * 1000,
+          clockOffset: 60 * 60 * 1000
+        })
+      );
+      // Expired by the client clock, but the server is an hour behind
+      storage.setItem(
+        'behind-key',
+        JSON.stringify({
+          token: 'valid-token',
+          expires: Date.now() - 30 * 60 * 1000,
+          clockOffset: -60 * 60 * 1000
+        })
+      );
+
+      expect(
+        await getCapToken({ ...props, tokenKey: 'behind-key' })
+      ).toMatchObject({ token: 'valid-token' });
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      expect(
+        await getCapToken({ ...props, tokenKey: 'ahead-key' })
+      ).toMatchObject({ token: 'solved-token' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should schedule refreshes by the server clock', async () => {
+      const onError = vi.fn();
+      const serverNow = Date.now() - 2 * 60 * 60 * 1000;
+      mockFetch.mockImplementation(
+        createMockFetch({
+          redeemResponse: {
+            ...mockRedeemResponse,
+            expires: serverNow + 30 * 60 * 1000,
+            timestamp: serverNow
+          }
+        }) as typeof fetch
+      );
+
+      await getCapToken({
+        ...defaultProps,
+        tokenKey: 'skewed-refresh-key',
+        refreshAutomatically: true,
+        onError
+      });
+      cancelRefresh('skewed-refresh-key');
+
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetch', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false
+    };
+
+    test('should use the injected fetch instead of the global one', async () => {
+      const customFetch = vi.fn(createMockFetch() as typeof fetch);
+
+      const result = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'custom-fetch-key',
+        fetch: customFetch
+      });
+
+      expect(result?.token).toBe('solved-token');
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should send requests returned by the request interceptor', async () => {
+      const requestInterceptor = vi.fn((request: CapRequest) => ({
+        ...request,
+        url: `${request.url}?trace=1`,
+        init: { ...request.init, credentials: 'include' as const }
+      }));
+
+      await getCapToken({
+        ...defaultProps,
+        tokenKey: 'request-interceptor-key',
+        requestInterceptor
+      });
+
+      expect(requestInterceptor.mock.calls.map(([{ phase }]) => phase)).toEqual(
+        ['challenge', 'redeem']
+      );
+      expect(
+        mockFetch.mock.calls.map(([url, init]) => [url, init?.credentials])
+      ).toEqual([
+        ['https://api.example.com/challenge?trace=1', 'include'],
+        ['https://api.example.com/redeem?trace=1', 'include']
+      ]);
+    });
+
+    test('should keep the request when the interceptor returns nothing', async () => {
+      await getCapToken({
+        ...defaultProps,
+        tokenKey: 'noop-interceptor-key',
+        requestInterceptor: () => undefined
+      });
+
+      expect(mockFetch.mock.calls[0]?.[0]).toBe(
+        'https://api.example.com/challenge'
+      );
+    });
+
+    test('should parse the response returned by the response interceptor', async () => {
+      const responseInterceptor = vi.fn(
+        (response: Response, request: CapRequest) =>
+          request.phase === 'redeem'
+            ? ({
+                ok: true,
+                json: () =>
+                  Promise.resolve({ ...mockRedeemResponse, token: 'replaced' })
+              } as Response)
+            : response
+      );
+
+      const result = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'response-interceptor-key',
+        responseInterceptor
+      });
+
+      expect(result?.token).toBe('replaced');
+      expect(responseInterceptor).toHaveBeenCalledTimes(2);
+    });
+
+    test('should report errors thrown by an interceptor', async () => {
+      const onError = vi.fn();
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'throwing-interceptor-key',
+        onError,
+        responseInterceptor: () => {
+          throw new Error('Blocked');
+        }
+      });
+
+      expect(token).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Blocked' })
+      );
+    });
+  });
+
+  describe('getFreshCapToken', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/'
+    };
+
+    test('should wait for a solve in flight instead of solving again', async () => {
+      const props = {
+        ...defaultProps,
+        localStorageEnabled: false,
+        tokenKey: 'fresh-pending-key'
+      };
+
+      const solving = getCapToken(props);
+      const token = await getFreshCapToken(props);
+
+      expect(token).toEqual(await solving);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should solve again when the stored token is about to expire', async () => {
+      const storage = createMemoryStorage();
+      const props = { ...defaultProps, storage, tokenKey: 'fresh-stored-key' };
+      storage.setItem(
+        'fresh-stored-key',
+        JSON.stringify({ token: 'stale-token', expires: Date.now() + 10_000 })
+      );
+
+      expect(await getFreshCapToken(props)).toMatchObject({
+        token: 'solved-token'
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should use a token at hand while it is fresh', async () => {
+      const currentToken = { token: 'current-token', expires: mockExpires };
+
+      expect(
+        await getFreshCapToken({
+          ...defaultProps,
+          localStorageEnabled: false,
+          currentToken
+        })
+      ).toBe(currentToken);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should take the token out when consuming', async () => {
+      const storage = createMemoryStorage();
+      const props = { ...defaultProps, storage, tokenKey: 'fresh-consume-key' };
+
+      await getCapToken(props);
+      expect(await getFreshCapToken({ ...props, consume: true })).toMatchObject(
+        { token: 'solved-token' }
+      );
+      expect(storage.getItem('fresh-consume-key')).toBeNull();
+    });
+
+    test('should reject with a TimeoutError after timeoutMs', async () => {
+      global.Worker = vi.fn(() =>
+        createMockWorker({ postMessage: vi.fn() })
+      ) as any;
+
+      const error = await getFreshCapToken({
+        ...defaultProps,
+        localStorageEnabled: false,
+        tokenKey: 'fresh-timeout-key',
+        timeoutMs: 50
+      }).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(CapAbortError);
+      expect((error as CapAbortError).reason).toMatchObject({
+        name: 'TimeoutError'
+      });
+    });
+
+    test('should reject an invalid timeoutMs before any request', async () => {
+      await expect(
+        getFreshCapToken({ ...defaultProps, timeoutMs: 0 })
+      ).rejects.toBeInstanceOf(CapConfigError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pool', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false,
+      poolSize: 2
+    };
+
+    beforeEach(() => {
+      mockLocalStorage.getItem.mockImplementation(
+        (key: string) => mockLocalStorage.store.get(key) || null
+      );
+
+      // Every redeem hands out a different token
+      let count = 0;
+      mockFetch.mockImplementation((url) => {
+        if (String(url).includes('redeem')) {
+          count++;
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                ...mockRedeemResponse,
+                token: `pooled-token-${count}`
+              })
+          } as Response);
+        }
+        return createMockFetch()(String(url)) as Promise<Response>;
+      });
+    });
+
+    test('should fill the pool in the background', async () => {
+      const tokenKey = 'pool-fill-key';
+
+      const token = await getCapToken({ ...defaultProps, tokenKey });
+
+      expect(token?.token).toBe('pooled-token-1');
+
+      await vi.waitFor(() => {
+        expect(getCapTokenPool({ tokenKey })).toHaveLength(2);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+
+      clearCapTokenPool({ tokenKey });
+    });
+
+    test('should hand out each pooled token only once', async () => {
+      const tokenKey = 'pool-consume-key';
+
+      const tokens = await Promise.all([
+        consumeCapToken({ ...defaultProps, tokenKey }),
+        consumeCapToken({ ...defaultProps, tokenKey }),
+        consumeCapToken({ ...defaultProps, tokenKey })
+      ]);
+
+      expect(new Set(tokens.map((token) => token?.token)).size).toBe(3);
+
+      await vi.waitFor(() => {
+        expect(getCapTokenPool({ tokenKey })).toHaveLength(2);
+      });
+
+      const [next] = await getCapTokenPool({ tokenKey });
+      const consumed = await consumeCapToken({ ...defaultProps, tokenKey });
+
+      expect(consumed).toEqual(next);
+      expect(getCapTokenPool({ tokenKey })).not.toContainEqual(next);
+
+      clearCapTokenPool({ tokenKey });
+    });
+
+    test('should persist the pool in localStorage when enabled', async () => {
+      const tokenKey = 'pool-storage-key';
+
+      await getCapToken({
+        ...defaultProps,
+        tokenKey,
+        localStorageEnabled: true
+      });
+
+      await vi.waitFor(() => {
+        expect(
+          getCapTokenPool({ tokenKey, localStorageEnabled: true })
+        ).toHaveLength(2);
+      });
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        `${tokenKey}:pool`,
+        expect.any(String)
+      );
+
+      clearCapTokenPool({ tokenKey, localStorageEnabled: true });
+
+      expect(getCapTokenPool({ tokenKey, localStorageEnabled: true })).toEqual(
+        []
+      );
+    });
+
+    test('should clear the stored token when consuming without a pool', async () => {
+      const tokenKey = 'consume-key';
+      const cachedToken: CapToken = {
+        token: 'cached-token',
+        expires: Date.now() + 1800000
+      };
+      mockLocalStorage.store.set(tokenKey, JSON.stringify(cachedToken));
+
+      const token = await consumeCapToken({
+        endpoint: defaultProps.endpoint,
+        tokenKey,
+        localStorageEnabled: true
+      });
+
+      expect(token).toEqual(cachedToken);
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith(tokenKey);
+    });
+  });
+
+  describe('abort', () => {
+    const defaultProps = {
+      endpoint: 'https://api.example.com/',
+      localStorageEnabled: false
+    };
+
+    // Workers that never respond, kept out of `mockWorkers` so timers left
+    // over from other tests cannot resolve them
+    let idleWorkers: Worker[] = [];
+
+    const createIdleWorker = () => {
+      const worker = {
+        postMessage: vi.fn(),
+        terminate: vi.fn(),
+        onmessage: null,
+        onerror: null
+      } as unknown as Worker;
+      idleWorkers.push(worker);
+      return worker;
+    };
+
+    beforeEach(() => {
+      idleWorkers = [];
+    });
+
+    test('should reject without fetching when signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        getCapToken({ ...defaultProps, signal: controller.signal })
+      ).rejects.toBeInstanceOf(CapAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should not solve when aborted while reading storage', async () => {
+      const controller = new AbortController();
+      const storage = {
+        getItem: () =>
+          new Promise<null>((resolve) => setTimeout(resolve, 20, null)),
+        setItem: async () => {},
+        removeItem: async () => {}
+      };
+
+      const aborted = getCapToken({
+        ...defaultProps,
+        tokenKey: 'abort-storage-key',
+        storage,
+        signal: controller.signal
+      });
+      controller.abort();
+
+      await expect(aborted).rejects.toBeInstanceOf(CapAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should terminate workers and reject when aborted mid-solve', async () => {
+      const onError = vi.fn();
+      const controller = new AbortController();
+
+      global.Worker = vi.fn(createIdleWorker) as any;
+
+      const promise = getCapToken({
+        ...defaultProps,
+        tokenKey: 'abort-key',
+        onError,
+        signal: controller.signal
+      });
+
+      await vi.waitFor(() => {
+        expect(idleWorkers.length).toBeGreaterThan(0);
+      });
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(CapAbortError);
+      expect(onError).not.toHaveBeenCalled();
+      for (const worker of idleWorkers) {
+        expect(worker.terminate).toHaveBeenCalled();
+      }
+    });
+
+    test('should start a new solve after an aborted one', async () => {
+      const controller = new AbortController();
+
+      global.Worker = vi.fn(createIdleWorker) as any;
+
+      const aborted = getCapToken({
+        ...defaultProps,
+        tokenKey: 'abort-restart-key',
+        signal: controller.signal
+      });
+
+      await vi.waitFor(() => {
+        expect(idleWorkers.length).toBeGreaterThan(0);
+      });
+
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(CapAbortError);
+
+      global.Worker = vi.fn(() => createMockWorker()) as any;
+
+      const token = await getCapToken({
+        ...defaultProps,
+        tokenKey: 'abort-restart-key'
+      });
+
+      expect(token).toEqual(mockRedeemResponse);
+    });
+
+    test('should not stop a shared solve when a joining caller aborts', async () => {
+      const controller = new AbortController();
+
+      const first = getCapToken({ ...defaultProps, tokenKey: 'shared-key' });
+      const second = getCapToken({
+        ...defaultProps,
+        tokenKey: 'shared-key',
+        signal: controller.signal
+      });
+
+      controller.abort();
+
+      await expect(second).rejects.toBeInstanceOf(CapAbortError);
+      await expect(first).resolves.toEqual(mockRedeemResponse);
+    });
+
+    test('should not fail joining callers when the starting caller aborts', async () => {
+      const controller = new AbortController();
+
+      const first = getCapToken({
+        ...defaultProps,
+        tokenKey: 'shared-starter-key',
+        signal: controller.signal
+      });
+      const second = getCapToken({
+        ...defaultProps,
+        tokenKey: 'shared-starter-key'
+      });
+
+      controller.abort();
+
+      await expect(first).rejects.toBeInstanceOf(CapAbortError);
+      await expect(second).resolves.toEqual(mockRedeemResponse);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should stop a shared solve once every caller has aborted', async () => {
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+
+      global.Worker = vi.fn(createIdleWorker) as any;
+
+      const first = getCapToken({
+        ...defaultProps,
+        tokenKey: 'shared-aborted-key',
+        signal: firstController.signal
+      });
+      const second = getCapToken({
+        ...defaultProps,
+        tokenKey: 'shared-aborted-key',
+        signal: secondController.signal
+      });
+
+      await vi.waitFor(() => {
+        expect(idleWorkers.length).toBeGreaterThan(0);
+      });
+
+      firstController.abort();
+      await expect(first).rejects.toBeInstanceOf(CapAbortError);
+      for (const worker of idleWorkers) {
+        expect(worker.terminate).not.toHaveBeenCalled();
+      }
+
+      secondController.abort();
+      await expect(second).rejects.toBeInstanceOf(CapAbortError);
+      await vi.waitFor(() => {
+        for (const worker of idleWorkers) {
+          expect(worker.terminate).toHaveBeenCalled();
+        }
+      });
+    });
+  });
+
   describe('cancelRefresh', () => {
     test('should cancel existing refresh timeout', async () => {
       const tokenKey = 'test-token-key';
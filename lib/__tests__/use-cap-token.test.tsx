@@ -0,0 +1,137 @@
+import { cleanup, render, screen } from '@testing-library/react';
+import { Component, type ReactNode, Suspense } from 'react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { type CapError, CapNetworkError } from '../errors.ts';
+import type { CapTokenOptions } from '../types.ts';
+import { preloadCapToken, useCapToken } from '../use-cap-token.ts';
+import { disposeWorkers } from '../worker-pool.ts';
+import { createMockWorker, mockExpires, mockFetch } from './helpers.ts';
+
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error: CapError | null }
+> {
+  state: { error: CapError | null } = { error: null };
+
+  static getDerivedStateFromError(error: CapError) {
+    return { error };
+  }
+
+  render() {
+    const { error } = this.state;
+    return error ? <p>Failed: {error.code}</p> : this.props.children;
+  }
+}
+
+function Token(props: CapTokenOptions) {
+  const { token } = useCapToken(props);
+  return <p>Token: {token}</p>;
+}
+
+// A new `key` resets the error boundary
+function createTree(props: CapTokenOptions, key?: string) {
+  return (
+    <ErrorBoundary key={key}>
+      <Suspense fallback={<p>Solving</p>}>
+        <Token {...props} />
+      </Suspense>
+    </ErrorBoundary>
+  );
+}
+
+function renderToken(props: CapTokenOptions) {
+  return render(createTree(props));
+}
+
+describe('useCapToken', () => {
+  const defaultProps = {
+    endpoint: 'https://api.example.com/',
+    localStorageEnabled: false,
+    refreshAutomatically: false
+  };
+
+  beforeEach(() => {
+    global.Worker = vi.fn(createMockWorker) as unknown as typeof Worker;
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    cleanup();
+    disposeWorkers();
+    vi.clearAllMocks();
+  });
+
+  test('should suspend until the token is solved', async () => {
+    renderToken({ ...defaultProps, tokenKey: 'suspense-key' });
+
+    expect(screen.getByText('Solving')).toBeDefined();
+    expect(await screen.findByText('Token: solved-token')).toBeDefined();
+  });
+
+  test('should throw solve errors to the error boundary', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    ) as unknown as typeof fetch;
+    const onError = vi.fn();
+
+    renderToken({ ...defaultProps, tokenKey: 'suspense-error-key', onError });
+
+    expect(await screen.findByText('Failed: network')).toBeDefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should solve again once preloaded after an error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    ) as unknown as typeof fetch;
+    const props = { ...defaultProps, tokenKey: 'suspense-retry-key' };
+
+    const { rerender } = renderToken(props);
+    expect(await screen.findByText('Failed: network')).toBeDefined();
+
+    rerender(createTree(props, 'reset'));
+    expect(await screen.findByText('Failed: network')).toBeDefined();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    global.fetch = vi.fn(mockFetch) as unknown as typeof fetch;
+    void preloadCapToken(props);
+    rerender(createTree(props, 'preloaded'));
+    expect(await screen.findByText('Token: solved-token')).toBeDefined();
+  });
+
+  test('should return a token from a stored pool', async () => {
+    localStorage.setItem(
+      'suspense-pool-key:pool',
+      JSON.stringify([
+        { token: 'pooled-token', expires: mockExpires },
+        { token: 'next-token', expires: mockExpires }
+      ])
+    );
+
+    renderToken({
+      ...defaultProps,
+      tokenKey: 'suspense-pool-key',
+      localStorageEnabled: true,
+      poolSize: 2
+    });
+
+    expect(await screen.findByText('Token: pooled-token')).toBeDefined();
+    expect(global.fetch).not.toHaveBeenCalled();
+    localStorage.removeItem('suspense-pool-key:pool');
+  });
+
+  test('should use a preloaded solve', async () => {
+    const props = { ...defaultProps, tokenKey: 'suspense-preload-key' };
+
+    const preloading = preloadCapToken(props);
+    renderToken(props);
+
+    expect(await preloading).toMatchObject({ token: 'solved-token' });
+    expect(await screen.findByText('Token: solved-token')).toBeDefined();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
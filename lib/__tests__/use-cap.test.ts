@@ -10,8 +10,17 @@ import {
   test,
   vi
 } from 'vitest';
-import type { CapHookProps, CapWorkerResult } from '../types.ts';
+import {
+  CapAbortError,
+  CapInvalidExpiryError,
+  CapNetworkError,
+  CapRedeemRejectedError,
+  CapWorkerCrashError,
+  CapWorkerTimeoutError
+} from '../errors.ts';
+import type { CapHookProps, CapToken, CapWorkerResult } from '../types.ts';
 import { useCap } from '../use-cap.ts';
+import { disposeWorkers } from '../worker-pool.ts';
 
 // Mock Worker
 let mockWorkers: Array<Worker> = [];
@@ -120,6 +129,7 @@ describe('useCapHook', () => {
   });
 
   afterEach(() => {
+    disposeWorkers();
     vi.clearAllMocks();
     vi.useRealTimers();
   });
@@ -207,7 +217,13 @@ describe('useCapHook', () => {
       await result.current.solve();
 
       expect(result.current.solving).toBe(false);
-      expect(onError).toHaveBeenCalledWith('Network error');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'network', message: 'Network error' })
+      );
+      await waitFor(() => {
+        expect(result.current.error).toBeInstanceOf(CapNetworkError);
+      });
     });
 
     test('should handle worker creation failure', async () => {
@@ -218,12 +234,20 @@ describe('useCapHook', () => {
         throw new Error('Worker creation failed');
       });
 
-      const { result } = renderHook(() => useCap({ ...defaultProps, onError }));
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, solver: 'inline', onError })
+      );
 
       await result.current.solve();
 
       expect(result.current.solving).toBe(false);
-      expect(onError).toHaveBeenCalledWith('Worker creation failed');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapWorkerCrashError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'worker-crash',
+          message: 'Worker creation failed'
+        })
+      );
     });
 
     test('should handle worker timeout', async () => {
@@ -246,10 +270,19 @@ describe('useCapHook', () => {
         vi.advanceTimersByTime(31000); // 31 seconds
       });
 
+      vi.runOnlyPendingTimers();
+      // The retry on a new worker times out as well
       vi.runOnlyPendingTimers();
 
       await waitFor(() => {
-        expect(onError).toHaveBeenCalledWith('Worker timeout');
+        expect(onError).toHaveBeenCalledWith(expect.any(CapWorkerTimeoutError));
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'worker-timeout',
+            phase: 'solve',
+            message: 'Worker timeout'
+          })
+        );
         expect(result.current.solving).toBe(false);
       });
 
@@ -277,14 +310,22 @@ describe('useCapHook', () => {
         return worker;
       }) as any;
 
-      const { result } = renderHook(() => useCap({ ...defaultProps, onError }));
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, solver: 'inline', onError })
+      );
 
       act(() => {
         void result.current.solve();
       });
 
       await waitFor(() => {
-        expect(onError).toHaveBeenCalledWith('Error in worker: Worker error');
+        expect(onError).toHaveBeenCalledWith(expect.any(CapWorkerCrashError));
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'worker-crash',
+            message: 'Error in worker: Worker error'
+          })
+        );
       });
     });
 
@@ -322,7 +363,16 @@ describe('useCapHook', () => {
       });
 
       await waitFor(() => {
-        expect(onError).toHaveBeenCalledWith('Invalid solution');
+        expect(onError).toHaveBeenCalledWith(
+          expect.any(CapRedeemRejectedError)
+        );
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'redeem-rejected',
+            phase: 'redeem',
+            message: 'Invalid solution'
+          })
+        );
         expect(result.current.solving).toBe(false);
       });
     });
@@ -354,18 +404,124 @@ describe('useCapHook', () => {
       });
 
       await waitFor(() => {
-        expect(onError).toHaveBeenCalledWith('Failed to redeem token');
+        expect(onError).toHaveBeenCalledWith(expect.any(CapNetworkError));
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'network',
+            phase: 'redeem',
+            message: 'Failed to redeem token'
+          })
+        );
         expect(result.current.solving).toBe(false);
       });
     });
   });
 
+  describe('consume', () => {
+    test('should hand out the token and clear it', async () => {
+      const { result } = renderHook(() => useCap(defaultProps));
+
+      let consumed: CapToken | undefined;
+      await act(async () => {
+        consumed = await result.current.consume();
+      });
+
+      expect(consumed).toEqual(mockRedeemResponse);
+      expect(result.current.token).toBeNull();
+    });
+
+    test('should show the next pooled token after consuming', async () => {
+      let count = 0;
+      mockFetch.mockImplementation((url) => {
+        if (String(url).includes('redeem')) {
+          count++;
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                ...mockRedeemResponse,
+                token: `pooled-token-${count}`
+              })
+          } as Response);
+        }
+        return createMockFetch()(String(url)) as Promise<Response>;
+      });
+
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, tokenKey: 'hook-pool-key', poolSize: 2 })
+      );
+
+      await act(async () => {
+        await result.current.solve();
+      });
+
+      await waitFor(() => {
+        expect(result.current.token?.token).toBe('pooled-token-1');
+      });
+
+      let consumed: CapToken | undefined;
+      await act(async () => {
+        consumed = await result.current.consume();
+      });
+
+      expect(consumed?.token).toBe('pooled-token-1');
+      await waitFor(() => {
+        expect(result.current.token?.token).toBe('pooled-token-2');
+      });
+
+      act(() => {
+        result.current.reset();
+      });
+    });
+  });
+
+  describe('getFreshToken', () => {
+    test('should solve once and hand out the same token until consumed', async () => {
+      const { result } = renderHook(() => useCap(defaultProps));
+
+      let fresh: CapToken | undefined;
+      await act(async () => {
+        fresh = await result.current.getFreshToken();
+      });
+      expect(fresh).toEqual(mockRedeemResponse);
+      expect(result.current.token).toEqual(mockRedeemResponse);
+
+      await act(async () => {
+        fresh = await result.current.getFreshToken({ consume: true });
+      });
+      expect(fresh).toEqual(mockRedeemResponse);
+      expect(result.current.token).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('abort', () => {
+    test('should reject with CapAbortError without setting error', async () => {
+      const onError = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      const { result } = renderHook(() => useCap({ ...defaultProps, onError }));
+
+      await act(async () => {
+        await expect(
+          result.current.solve({ signal: controller.signal })
+        ).rejects.toBeInstanceOf(CapAbortError);
+      });
+
+      expect(result.current.solving).toBe(false);
+      expect(result.current.error).toBeNull();
+      expect(onError).not.toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('challenge processing', () => {
     test('should handle array-based challenges', async () => {
       const challengeResponse = {
         challenge: [
-          ['salt1', 'target1'],
-          ['salt2', 'target2']
+          ['salt1', 'a1'],
+          ['salt2', 'b2']
         ] as [string, string][],
         token: 'test-token',
         expires: Date.now() + 3600000
@@ -399,6 +555,62 @@ describe('useCapHook', () => {
       });
     });
 
+    test('should forward request headers', async () => {
+      const { result } = renderHook(() =>
+        useCap({
+          ...defaultProps,
+          challengeHeaders: () => Promise.resolve({ 'x-csrf': 'token' }),
+          redeemHeaders: { authorization: 'Bearer token' }
+        })
+      );
+
+      await act(async () => {
+        await result.current.solve();
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/challenge',
+        expect.objectContaining({ headers: { 'x-csrf': 'token' } })
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/redeem',
+        expect.objectContaining({
+          headers: {
+            'content-type': 'application/json',
+            authorization: 'Bearer token'
+          }
+        })
+      );
+    });
+
+    test('should expose progress detail while solving', async () => {
+      const onProgressDetail = vi.fn();
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, onProgressDetail })
+      );
+
+      expect(result.current.progressDetail).toBeNull();
+
+      await act(async () => {
+        await result.current.solve();
+      });
+
+      expect(result.current.progressDetail).toMatchObject({
+        phase: 'redeem',
+        completed: 2,
+        total: 2
+      });
+      expect(onProgressDetail).toHaveBeenCalledWith(
+        expect.objectContaining({ phase: 'challenge' })
+      );
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.progressDetail).toBeNull();
+    });
+
     test('should update progress during solving', async () => {
       const onProgress = vi.fn();
       const challengeResponse = {
@@ -486,7 +698,9 @@ describe('useCapHook', () => {
       void result.current.solve();
 
       await waitFor(() => {
-        expect(result.current.token).toBe(mockRedeemResponseWithFutureExpiry);
+        expect(result.current.token).toEqual(
+          mockRedeemResponseWithFutureExpiry
+        );
       });
 
       const mockRedeemResponseAgain = {
@@ -505,7 +719,7 @@ describe('useCapHook', () => {
 
       await waitFor(() => {
         expect(result.current.solving).toBe(false);
-        expect(result.current.token).toBe(mockRedeemResponseAgain);
+        expect(result.current.token).toEqual(mockRedeemResponseAgain);
       });
 
       vi.useRealTimers();
@@ -543,12 +757,119 @@ describe('useCapHook', () => {
         });
       });
 
-      expect(onError).toHaveBeenCalledWith('Invalid expiration time');
+      expect(onError).toHaveBeenCalledWith(expect.any(CapInvalidExpiryError));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'invalid-expiry',
+          message: 'Invalid expiration time'
+        })
+      );
+    });
+  });
+
+  describe('trigger', () => {
+    test('should not solve on its own by default', async () => {
+      renderHook(() => useCap(defaultProps));
+
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should solve on mount', async () => {
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, trigger: 'mount' })
+      );
+
+      await waitFor(() => {
+        expect(result.current.token).toEqual(mockRedeemResponse);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should solve on the first interaction with the bound element', async () => {
+      const form = document.createElement('form');
+      const input = document.createElement('input');
+      form.append(input);
+
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, trigger: 'intent' })
+      );
+      act(() => result.current.bind(form));
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      act(() => {
+        input.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+        input.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true }));
+      });
+
+      await waitFor(() => {
+        expect(result.current.token).toEqual(mockRedeemResponse);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should share one solve between the trigger and solve()', async () => {
+      const form = document.createElement('form');
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, trigger: 'intent' })
+      );
+      act(() => result.current.bind(form));
+
+      let submitted: CapToken | undefined;
+      await act(async () => {
+        form.dispatchEvent(new Event('pointerdown'));
+        submitted = await result.current.solve();
+      });
+
+      expect(submitted).toEqual(mockRedeemResponse);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      // A valid token is handed out again without solving
+      await act(async () => {
+        expect(await result.current.solve()).toEqual(mockRedeemResponse);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('pauseWhenHidden', () => {
+    const setVisibility = (state: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    afterEach(() => {
+      setVisibility('visible');
+    });
+
+    test('should be paused while the page is hidden', () => {
+      const { result } = renderHook(() =>
+        useCap({ ...defaultProps, pauseWhenHidden: true })
+      );
+      expect(result.current.paused).toBe(false);
+
+      act(() => setVisibility('hidden'));
+      expect(result.current.paused).toBe(true);
+
+      act(() => setVisibility('visible'));
+      expect(result.current.paused).toBe(false);
+    });
+
+    test('should never be paused without the option', () => {
+      const { result } = renderHook(() => useCap(defaultProps));
+
+      act(() => setVisibility('hidden'));
+      expect(result.current.paused).toBe(false);
     });
   });
 
   describe('worker management', () => {
-    test('should terminate workers on completion', async () => {
+    test('should keep workers alive until they are disposed', async () => {
       const { result } = renderHook(() => useCap(defaultProps));
 
       await result.current.solve();
@@ -571,7 +892,14 @@ describe('useCapHook', () => {
         expect(result.current.solving).toBe(false);
       });
 
-      // All workers should be terminated
+      // Workers are kept for the next solve
+      expect(mockWorkers.length).toBeGreaterThan(0);
+      for (const worker of mockWorkers) {
+        expect(worker.terminate).not.toHaveBeenCalled();
+      }
+
+      disposeWorkers();
+
       for (const worker of mockWorkers) {
         expect(worker.terminate).toHaveBeenCalled();
       }
@@ -613,6 +941,8 @@ describe('useCapHook', () => {
         expect(result.current.solving).toBe(false);
       });
 
+      disposeWorkers();
+
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         '[cap] error terminating worker:',
         expect.any(Error)
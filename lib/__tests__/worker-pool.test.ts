@@ -0,0 +1,394 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WORKER_IDLE_TIMEOUT_IN_MS } from '../constants.ts';
+import {
+  CapAbortError,
+  CapWorkerCrashError,
+  CapWorkerTimeoutError
+} from '../errors.ts';
+import type { CapWorkerMessage, Challenge } from '../types.ts';
+import { disposeWorkers, runChallenges } from '../worker-pool.ts';
+
+type MockWorker = {
+  postMessage: ReturnType<typeof vi.fn>;
+  terminate: ReturnType<typeof vi.fn>;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  messages: CapWorkerMessage[];
+  respond: (nonce: number) => void;
+};
+
+let workers: MockWorker[] = [];
+
+function createMockWorker() {
+  const worker: MockWorker = {
+    postMessage: vi.fn((message: CapWorkerMessage) => {
+      worker.messages.push(message);
+    }),
+    terminate: vi.fn(),
+    onmessage: null,
+    onerror: null,
+    messages: [],
+    respond: (nonce) => {
+      worker.onmessage?.({ data: { nonce, found: true, durationMs: '1.00' } });
+    }
+  };
+  workers.push(worker);
+  return worker;
+}
+
+const challenges: Challenge[] = [
+  ['salt-0', 'target'],
+  ['salt-1', 'target'],
+  ['salt-2', 'target'],
+  ['salt-3', 'target']
+];
+
+describe('worker-pool', () => {
+  beforeEach(() => {
+    workers = [];
+    global.Worker = vi.fn(createMockWorker) as any;
+  });
+
+  afterEach(() => {
+    disposeWorkers();
+    vi.useRealTimers();
+  });
+
+  it('should hand out the next challenge as soon as a worker is free', async () => {
+    const promise = runChallenges(challenges, { workersCount: 2 });
+
+    expect(workers).toHaveLength(2);
+    expect(workers[0]?.messages[0]?.salt).toBe('salt-0');
+    expect(workers[1]?.messages[0]?.salt).toBe('salt-1');
+
+    // The first worker keeps going while the second is still busy
+    workers[0]?.respond(0);
+    expect(workers[0]?.messages[1]?.salt).toBe('salt-2');
+    workers[0]?.respond(2);
+    expect(workers[0]?.messages[2]?.salt).toBe('salt-3');
+    workers[0]?.respond(3);
+    workers[1]?.respond(1);
+
+    await expect(promise).resolves.toEqual([0, 1, 2, 3]);
+    expect(workers).toHaveLength(2);
+  });
+
+  it('should only create as many workers as there are challenges', async () => {
+    const promise = runChallenges(challenges.slice(0, 1), { workersCount: 8 });
+
+    expect(workers).toHaveLength(1);
+    workers[0]?.respond(42);
+
+    await expect(promise).resolves.toEqual([42]);
+  });
+
+  it('should reuse workers across calls', async () => {
+    const first = runChallenges(challenges.slice(0, 2), { workersCount: 2 });
+    workers[0]?.respond(1);
+    workers[1]?.respond(2);
+    await first;
+
+    const second = runChallenges(challenges.slice(2), { workersCount: 2 });
+    workers[0]?.respond(3);
+    workers[1]?.respond(4);
+
+    await expect(second).resolves.toEqual([3, 4]);
+    expect(global.Worker).toHaveBeenCalledTimes(2);
+    for (const worker of workers) {
+      expect(worker.terminate).not.toHaveBeenCalled();
+    }
+  });
+
+  it('should report each solved challenge', async () => {
+    const onSolved = vi.fn();
+    const promise = runChallenges(challenges.slice(0, 2), {
+      workersCount: 2,
+      onSolved
+    });
+
+    workers[1]?.respond(7);
+    expect(onSolved).toHaveBeenCalledWith(
+      1,
+      7,
+      1,
+      expect.objectContaining({ completed: 1, durations: [null, 1] })
+    );
+    workers[0]?.respond(5);
+    expect(onSolved).toHaveBeenCalledWith(
+      0,
+      5,
+      1,
+      expect.objectContaining({ completed: 2, progress: 100 })
+    );
+
+    await promise;
+  });
+
+  it('should terminate idle workers after a timeout', async () => {
+    vi.useFakeTimers();
+
+    const promise = runChallenges(challenges.slice(0, 2), { workersCount: 2 });
+    workers[0]?.respond(1);
+    workers[1]?.respond(2);
+    await promise;
+
+    vi.advanceTimersByTime(WORKER_IDLE_TIMEOUT_IN_MS - 1);
+    expect(workers[0]?.terminate).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    for (const worker of workers) {
+      expect(worker.terminate).toHaveBeenCalled();
+    }
+  });
+
+  it('should replace a worker that crashed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const failed = runChallenges(challenges.slice(0, 1), {
+      workersCount: 1,
+      solver: 'inline'
+    });
+    workers[0]?.onerror?.(new ErrorEvent('error', { message: 'boom' }));
+
+    await expect(failed).rejects.toBeInstanceOf(CapWorkerCrashError);
+    expect(workers[0]?.terminate).toHaveBeenCalled();
+
+    const promise = runChallenges(challenges.slice(0, 1), {
+      workersCount: 1,
+      solver: 'inline'
+    });
+    expect(workers).toHaveLength(2);
+    workers[1]?.respond(9);
+
+    await expect(promise).resolves.toEqual([9]);
+  });
+
+  it('should stop the workers of an aborted call only', async () => {
+    const controller = new AbortController();
+
+    const aborted = runChallenges(challenges.slice(0, 1), {
+      workersCount: 2,
+      signal: controller.signal
+    });
+    const other = runChallenges(challenges.slice(1, 2), { workersCount: 2 });
+
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(CapAbortError);
+    expect(workers[0]?.terminate).toHaveBeenCalled();
+    expect(workers[1]?.terminate).not.toHaveBeenCalled();
+
+    workers[1]?.respond(5);
+    await expect(other).resolves.toEqual([5]);
+  });
+
+  it('should time out a challenge after challengeTimeoutMs', async () => {
+    vi.useFakeTimers();
+
+    const promise = runChallenges(challenges.slice(0, 1), {
+      workersCount: 1,
+      challengeTimeoutMs: 1000
+    });
+    const assertion = expect(promise).rejects.toMatchObject({
+      message: 'Worker timeout',
+      timeout: 'challenge',
+      completed: 0,
+      total: 1
+    });
+
+    // The first timeout retries the challenge on a new worker
+    vi.advanceTimersByTime(1000);
+    expect(workers[0]?.terminate).toHaveBeenCalled();
+    expect(workers[1]?.messages[0]?.salt).toBe('salt-0');
+
+    // The retry gets twice the time
+    vi.advanceTimersByTime(1999);
+    expect(workers[1]?.terminate).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+
+    await assertion;
+    expect(workers[1]?.terminate).toHaveBeenCalled();
+  });
+
+  it('should solve a challenge on the retry after a timeout', async () => {
+    vi.useFakeTimers();
+
+    const promise = runChallenges(challenges.slice(0, 1), {
+      workersCount: 1,
+      challengeTimeoutMs: 1000
+    });
+
+    vi.advanceTimersByTime(1000);
+    workers[1]?.respond(7);
+
+    await expect(promise).resolves.toEqual([7]);
+  });
+
+  it('should give slow devices more time than challengeTimeoutMs', async () => {
+    vi.useFakeTimers();
+
+    const slow: Challenge[] = [
+      ['salt-0', 'ab'],
+      ['salt-1', 'ab']
+    ];
+    const promise = runChallenges(slow, {
+      workersCount: 1,
+      challengeTimeoutMs: 10
+    });
+
+    // 256 expected hashes at 0.25 hashes per millisecond
+    workers[0]?.onmessage?.({
+      data: { nonce: 255, found: true, durationMs: '1024' }
+    });
+    vi.advanceTimersByTime(1000);
+    expect(workers).toHaveLength(1);
+
+    workers[0]?.respond(3);
+    await expect(promise).resolves.toEqual([255, 3]);
+  });
+
+  it('should stop solving after solveTimeoutMs', async () => {
+    vi.useFakeTimers();
+
+    const promise = runChallenges(challenges, {
+      workersCount: 2,
+      challengeTimeoutMs: 5000,
+      solveTimeoutMs: 3000
+    });
+    const assertion = expect(promise).rejects.toBeInstanceOf(
+      CapWorkerTimeoutError
+    );
+
+    // Every challenge is quick, but together they take too long
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(1000);
+      workers[0]?.respond(i);
+    }
+
+    await assertion;
+    await expect(promise).rejects.toMatchObject({
+      message: 'Solve timeout',
+      timeout: 'deadline',
+      completed: 2,
+      total: 4,
+      elapsedMs: 3000
+    });
+    expect(workers[1]?.terminate).toHaveBeenCalled();
+  });
+
+  it('should hand out no challenges while the page is hidden', async () => {
+    const setVisibility = (state: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    const promise = runChallenges(challenges.slice(0, 2), {
+      workersCount: 1,
+      pauseWhenHidden: true
+    });
+    expect(workers[0]?.messages).toHaveLength(1);
+
+    // The challenge being solved still finishes
+    setVisibility('hidden');
+    workers[0]?.respond(0);
+    expect(workers[0]?.messages).toHaveLength(1);
+
+    setVisibility('visible');
+    expect(workers[0]?.messages[1]?.salt).toBe('salt-1');
+    workers[0]?.respond(1);
+
+    await expect(promise).resolves.toEqual([0, 1]);
+  });
+
+  it('should reject in-flight calls when disposed', async () => {
+    const promise = runChallenges(challenges, { workersCount: 2 });
+
+    disposeWorkers();
+
+    await expect(promise).rejects.toBeInstanceOf(CapWorkerCrashError);
+    for (const worker of workers) {
+      expect(worker.terminate).toHaveBeenCalled();
+    }
+  });
+
+  describe('solver', () => {
+    // Targets of one byte take a few hundred hashes on the main thread
+    const easyChallenges: Challenge[] = [
+      ['salt-0', '00'],
+      ['salt-1', '00']
+    ];
+
+    it('should solve on the main thread', async () => {
+      const solutions = await runChallenges(easyChallenges, {
+        workersCount: 4,
+        solver: 'main-thread'
+      });
+
+      expect(solutions).toHaveLength(2);
+      expect(global.Worker).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the main thread when workers cannot be created', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.Worker = vi.fn(() => {
+        throw new Error('Blocked by CSP');
+      }) as any;
+
+      const solutions = await runChallenges(easyChallenges, {
+        workersCount: 4
+      });
+
+      expect(solutions).toHaveLength(2);
+      expect(global.Worker).toHaveBeenCalledTimes(1);
+    });
+
+    it('should try the worker url before the main thread', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.Worker = vi.fn((url: string | URL) => {
+        if (url !== '/cap-worker.js') {
+          throw new Error('Blocked by CSP');
+        }
+        return createMockWorker();
+      }) as any;
+
+      const promise = runChallenges(challenges.slice(0, 1), {
+        workersCount: 1,
+        workerUrl: '/cap-worker.js'
+      });
+
+      expect(global.Worker).toHaveBeenLastCalledWith('/cap-worker.js', {
+        type: 'module'
+      });
+      workers[0]?.respond(3);
+
+      await expect(promise).resolves.toEqual([3]);
+    });
+
+    it('should fall back when a worker fails before solving anything', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.Worker = vi.fn(() => {
+        const worker = createMockWorker();
+        worker.postMessage.mockImplementation(() => {
+          worker.onerror?.(new ErrorEvent('error', { message: 'Blocked' }));
+        });
+        return worker;
+      }) as any;
+
+      const solutions = await runChallenges(easyChallenges, {
+        workersCount: 2
+      });
+
+      expect(solutions).toHaveLength(2);
+      expect(global.Worker).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require a workerUrl for the url solver', async () => {
+      await expect(
+        runChallenges(challenges, { workersCount: 1, solver: 'url' })
+      ).rejects.toBeInstanceOf(CapWorkerCrashError);
+    });
+  });
+});
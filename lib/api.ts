@@ -1,173 +1,332 @@
-import { EXPIRES_BUFFER_IN_MS, WORKER_TIMEOUT_IN_MS } from './constants.ts';
+import { EXPIRES_BUFFER_IN_MS } from './constants.ts';
+import {
+  CapChallengeParseError,
+  CapConfigError,
+  CapNetworkError,
+  CapRedeemRejectedError,
+  getErrorMessage,
+  throwIfAborted
+} from './errors.ts';
+import { withRetry } from './retry.ts';
+import { checkChallengeResponse, checkRedeemResponse } from './schema.ts';
+import {
+  type CapStorage,
+  isPromise,
+  localStorageAdapter,
+  type MaybePromise,
+  mapMaybePromise,
+  type SyncCapStorage
+} from './storage.ts';
 import type {
+  CapHeadersInit,
   CapHookProps,
+  CapRequest,
   CapToken,
-  CapWorkerMessage,
-  CapWorkerResult,
   Challenge,
   ChallengeResponse,
-  RedeemResponse
+  RedeemResponse,
+  SolveOptions
 } from './types.ts';
-// Not ideal, due to this bug: https://github.com/vitejs/vite/issues/15618
-// https://github.com/vitejs/vite/discussions/15547
-import CapWorker from './worker.ts?worker&inline';
 
-export async function getChallenge(
-  context: Pick<CapHookProps, 'endpoint' | 'challengeHeaders'>
+type RequestContext = Pick<
+  CapHookProps,
+  'fetch' | 'requestInterceptor' | 'responseInterceptor'
+> &
+  SolveOptions;
+
+async function request(
+  context: RequestContext,
+  url: string,
+  init: RequestInit,
+  phase: CapRequest['phase']
 ) {
-  const { endpoint, challengeHeaders } = context;
-  const { challenge, token, expires } = (await (
-    await fetch(`${endpoint}challenge`, {
-      method: 'POST',
-      headers: challengeHeaders
-    })
-  ).json()) as ChallengeResponse;
+  const {
+    fetch: fetchImplementation = globalThis.fetch,
+    requestInterceptor,
+    responseInterceptor,
+    signal
+  } = context;
+
+  throwIfAborted(signal, phase);
+
+  const initialRequest: CapRequest = {
+    phase,
+    url,
+    init: { ...init, signal }
+  };
+  const capRequest =
+    (await requestInterceptor?.(initialRequest)) ?? initialRequest;
+
+  let response: Response;
+  try {
+    response = await fetchImplementation(capRequest.url, capRequest.init);
+  } catch (error) {
+    throwIfAborted(signal, phase);
+    throw new CapNetworkError(getErrorMessage(error), { phase, cause: error });
+  }
 
-  let challenges: Challenge[];
+  return (await responseInterceptor?.(response, capRequest)) ?? response;
+}
 
-  if (!Array.isArray(challenge)) {
-    challenges = Array.from({ length: challenge.c }, (_v, k) => {
-      const i = k + 1;
-      return [
-        prng(`${token}${i}`, challenge.s),
-        prng(`${token}${i}d`, challenge.d)
-      ];
+export type ResolvedEndpoints = {
+  challengeUrl: string;
+  redeemUrl: string;
+};
+
+function parseEndpointUrl(url: string | URL, name: string) {
+  let parsed: URL;
+  try {
+    // Relative URLs resolve against the page, like fetch would
+    parsed = new URL(
+      url,
+      typeof location === 'undefined' ? undefined : location.href
+    );
+  } catch (error) {
+    throw new CapConfigError(`Invalid ${name}: ${String(url)}`, {
+      cause: error
     });
-  } else {
-    challenges = challenge;
   }
 
-  return { token, expires, challenges };
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new CapConfigError(
+      `Invalid ${name}: ${String(url)} is not an http(s) URL`
+    );
+  }
+
+  return parsed;
 }
 
-export async function solveChallenges(
-  context: Pick<CapHookProps, 'onProgress'> &
-    Required<Pick<CapHookProps, 'workersCount'>>,
-  challenges: Challenge[]
-) {
-  const { onProgress, workersCount } = context;
-
-  const total = challenges.length;
-  let completed = 0;
-
-  const workers = Array(workersCount)
-    .fill(null)
-    .map(() => {
-      try {
-        return createWorker();
-      } catch (error) {
-        console.error('[cap] Failed to create worker:', error);
-        throw new Error('Worker creation failed');
-      }
-    });
+/**
+ * Resolves the challenge and redeem URLs from `endpoint` or `endpoints`.
+ * Throws a `CapConfigError` when they are missing or invalid, so a bad
+ * configuration fails before any request is made.
+ */
+export function resolveEndpoints(
+  context: Pick<CapHookProps, 'endpoint' | 'endpoints'>
+): ResolvedEndpoints {
+  const { endpoint, endpoints } = context;
+
+  if (endpoint !== undefined && endpoints !== undefined) {
+    throw new CapConfigError('Pass either endpoint or endpoints, not both');
+  }
 
-  const solveSingleChallenge = (
-    [salt, target]: Challenge,
-    workerId: number
-  ): Promise<number> =>
-    new Promise((resolve, reject) => {
-      const worker = workers[workerId];
-      if (!worker) {
-        reject(new Error('Worker not available'));
-        return;
-      }
+  const config = endpoints ?? endpoint;
+  const { baseUrl, siteKey, challengeUrl, redeemUrl } =
+    typeof config === 'string' || config instanceof URL
+      ? { baseUrl: config }
+      : (config ?? {});
 
-      const timeout = setTimeout(() => {
-        try {
-          worker.terminate();
-          workers[workerId] = createWorker();
-        } catch (error) {
-          console.error('[cap] error terminating/recreating worker:', error);
-        }
-        reject(new Error('Worker timeout'));
-      }, WORKER_TIMEOUT_IN_MS);
-
-      worker.onmessage = ({ data }: CapWorkerResult) => {
-        if (!data.found) {
-          return;
-        }
-
-        clearTimeout(timeout);
-        completed++;
-        onProgress?.(Math.round((completed / total) * 100));
-        resolve(data.nonce);
-      };
-
-      worker.onerror = (err) => {
-        console.error('[cap worker] error:', err);
-        clearTimeout(timeout);
-        reject(
-          new Error(
-            `Error in worker: ${typeof err === 'object' ? (err?.message ?? 'unknown') : String(err)}`
-          )
-        );
-      };
-
-      const message: CapWorkerMessage = {
-        salt,
-        target
-      };
-
-      worker.postMessage(message);
-    });
+  if (!baseUrl && !(challengeUrl && redeemUrl)) {
+    throw new CapConfigError(
+      'Missing endpoint, pass a base URL or both challengeUrl and redeemUrl'
+    );
+  }
 
-  const results: number[] = [];
+  if (siteKey !== undefined && (!siteKey || siteKey.includes('/'))) {
+    throw new CapConfigError(`Invalid siteKey: ${siteKey}`);
+  }
 
-  try {
-    for (let i = 0; i < challenges.length; i += workersCount) {
-      const chunk = challenges.slice(
-        i,
-        Math.min(i + workersCount, challenges.length)
-      );
-      const chunkResults = await Promise.all(
-        chunk.map((c, idx) => solveSingleChallenge(c, idx))
-      );
-      results.push(...chunkResults);
+  let base: URL | undefined;
+  if (baseUrl) {
+    base = parseEndpointUrl(baseUrl, 'endpoint');
+    // Without a trailing slash the last path segment would be replaced
+    if (!base.pathname.endsWith('/')) {
+      base.pathname += '/';
     }
-  } finally {
-    for (const w of workers) {
-      if (w) {
-        try {
-          w.terminate();
-        } catch (error) {
-          console.error('[cap] error terminating worker:', error);
-        }
+    if (siteKey) {
+      base = new URL(`${encodeURIComponent(siteKey)}/`, base);
+    }
+  }
+
+  return {
+    challengeUrl: challengeUrl
+      ? parseEndpointUrl(challengeUrl, 'challengeUrl').href
+      : new URL('challenge', base).href,
+    redeemUrl: redeemUrl
+      ? parseEndpointUrl(redeemUrl, 'redeemUrl').href
+      : new URL('redeem', base).href
+  };
+}
+
+/**
+ * Estimates how far the server clock is ahead of ours, taking the server time
+ * to be the middle of the request. A `timestamp` in the body is preferred over
+ * the `Date` header, which only has second precision.
+ */
+function getClockOffset(
+  response: Response,
+  timestamp: number | undefined,
+  sentAt: number,
+  receivedAt: number
+) {
+  // Responses from a custom fetch may not have headers
+  const date = response.headers?.get('date');
+  const serverTime =
+    timestamp ??
+    // The header is truncated to the second, so aim for the middle of it
+    (date ? Date.parse(date) + 500 : Number.NaN);
+
+  return Number.isFinite(serverTime)
+    ? Math.round(serverTime - (sentAt + receivedAt) / 2)
+    : undefined;
+}
+
+// Providers are called for every request, retries included, so each one can
+// carry a fresh token
+async function resolveHeaders(headers?: CapHeadersInit) {
+  return typeof headers === 'function' ? await headers() : headers;
+}
+
+export async function getChallenge(
+  context: Pick<
+    CapHookProps,
+    'endpoint' | 'endpoints' | 'challengeHeaders' | 'retry'
+  > &
+    RequestContext
+) {
+  const { challengeHeaders, retry, signal } = context;
+  const { challengeUrl } = resolveEndpoints(context);
+  let sentAt = 0;
+  const response = await withRetry(
+    { policy: retry, phase: 'challenge', signal },
+    async () => {
+      sentAt = Date.now();
+      const response = await request(
+        context,
+        challengeUrl,
+        {
+          method: 'POST',
+          headers: await resolveHeaders(challengeHeaders)
+        },
+        'challenge'
+      );
+
+      if (!response.ok) {
+        throw new CapNetworkError('Failed to get challenge', {
+          phase: 'challenge',
+          status: response.status
+        });
       }
+
+      return response;
     }
+  );
+  const receivedAt = Date.now();
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new CapChallengeParseError('Invalid challenge response', {
+      cause: error,
+      status: response.status
+    });
+  }
+
+  const problem = checkChallengeResponse(body);
+  if (problem) {
+    throw new CapChallengeParseError(`Invalid challenge response: ${problem}`, {
+      status: response.status
+    });
+  }
+
+  const { challenge, token, expires, timestamp } = body as ChallengeResponse;
+
+  let challenges: Challenge[];
+
+  if (!Array.isArray(challenge)) {
+    challenges = Array.from({ length: challenge.c }, (_v, k) => {
+      const i = k + 1;
+      return [
+        prng(`${token}${i}`, challenge.s),
+        prng(`${token}${i}d`, challenge.d)
+      ];
+    });
+  } else {
+    challenges = challenge;
   }
 
-  return results;
+  return {
+    token,
+    expires,
+    challenges,
+    clockOffset: getClockOffset(response, timestamp, sentAt, receivedAt)
+  };
 }
 
 export async function redeemSolutions(
-  context: Pick<CapHookProps, 'onProgress' | 'endpoint' | 'redeemHeaders'>,
+  context: Pick<
+    CapHookProps,
+    'onProgress' | 'endpoint' | 'endpoints' | 'redeemHeaders' | 'retry'
+  > &
+    RequestContext,
   token: string,
   solutions: number[]
 ) {
-  const { onProgress, endpoint, redeemHeaders } = context;
-
-  const response = await fetch(`${endpoint}redeem`, {
-    method: 'POST',
-    body: JSON.stringify({ token, solutions }),
-    headers: {
-      'content-type': 'application/json',
-      ...redeemHeaders
+  const { onProgress, redeemHeaders, retry, signal } = context;
+  const { redeemUrl } = resolveEndpoints(context);
+
+  let sentAt = 0;
+  const response = await withRetry(
+    { policy: retry, phase: 'redeem', signal },
+    async () => {
+      sentAt = Date.now();
+      const response = await request(
+        context,
+        redeemUrl,
+        {
+          method: 'POST',
+          body: JSON.stringify({ token, solutions }),
+          headers: {
+            'content-type': 'application/json',
+            ...(await resolveHeaders(redeemHeaders))
+          }
+        },
+        'redeem'
+      );
+
+      if (!response.ok) {
+        throw new CapNetworkError('Failed to redeem token', {
+          phase: 'redeem',
+          status: response.status
+        });
+      }
+
+      return response;
     }
-  });
+  );
+  const receivedAt = Date.now();
 
   onProgress?.(100);
 
-  if (!response.ok) {
-    throw new Error('Failed to redeem token');
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new CapRedeemRejectedError('Invalid redeem response', {
+      cause: error,
+      status: response.status
+    });
   }
 
-  const resp = (await response.json()) as RedeemResponse;
+  const problem = checkRedeemResponse(body);
+  if (problem) {
+    throw new CapRedeemRejectedError(`Invalid redeem response: ${problem}`, {
+      status: response.status
+    });
+  }
 
+  const resp = body as RedeemResponse;
   if (!resp.success) {
-    throw new Error(resp.message ?? 'Invalid solution');
+    throw new CapRedeemRejectedError(resp.message ?? 'Invalid solution', {
+      status: response.status
+    });
   }
 
-  return resp;
+  return {
+    ...resp,
+    clockOffset: getClockOffset(response, resp.timestamp, sentAt, receivedAt)
+  };
 }
 
 function prng(seed: string, length: number) {
@@ -199,17 +358,16 @@ function prng(seed: string, length: number) {
   return result.substring(0, length);
 }
 
-function createWorker() {
-  // This needs to all be inline for bundlers to properly detect the worker file
-  return new CapWorker();
-}
-
-export function isTokenExpired(token: CapToken) {
-  return token.expires <= Date.now() + EXPIRES_BUFFER_IN_MS;
+/** Time left on the token by the server clock, in milliseconds. */
+export function getExpiresIn(token: CapToken) {
+  return token.expires - (Date.now() + (token.clockOffset ?? 0));
 }
 
-export function setLocalStorageItem(localStorageKey: string, token: CapToken) {
-  localStorage.setItem(localStorageKey, JSON.stringify(token));
+export function isTokenExpired(
+  token: CapToken,
+  refreshBufferMs = EXPIRES_BUFFER_IN_MS
+) {
+  return getExpiresIn(token) <= refreshBufferMs;
 }
 
 function isObject(x: unknown): x is Record<string, unknown> {
@@ -218,25 +376,160 @@ function isObject(x: unknown): x is Record<string, unknown> {
 
 function isCapToken(x: unknown): x is CapToken {
   return (
-    isObject(x) && typeof x.token === 'string' && typeof x.expires === 'number'
+    isObject(x) &&
+    typeof x.token === 'string' &&
+    typeof x.expires === 'number' &&
+    (x.clockOffset === undefined || typeof x.clockOffset === 'number')
   );
 }
 
-export function getLocalStorageItem(localStorageKey: string): CapToken | null {
-  try {
-    const item = localStorage.getItem(localStorageKey);
-    if (item) {
-      const capToken = JSON.parse(item);
-      if (isCapToken(capToken) && !isTokenExpired(capToken)) {
-        return capToken;
-      }
+function parseCapToken(
+  item: string | null,
+  refreshBufferMs?: number
+): CapToken | null {
+  if (item) {
+    const capToken = JSON.parse(item);
+    if (isCapToken(capToken) && !isTokenExpired(capToken, refreshBufferMs)) {
+      return capToken;
     }
-  } catch {
-    console.warn('[cap] Failed to parse token from localStorage');
   }
   return null;
 }
 
+function parseCapTokens(
+  item: string | null,
+  refreshBufferMs?: number
+): CapToken[] {
+  if (item) {
+    const capTokens = JSON.parse(item);
+    if (Array.isArray(capTokens)) {
+      return capTokens.filter(
+        (capToken): capToken is CapToken =>
+          isCapToken(capToken) && !isTokenExpired(capToken, refreshBufferMs)
+      );
+    }
+  }
+  return [];
+}
+
+// Storage failures are never fatal: a token that can't be read or saved just
+// means solving again
+function tryStorage<T>(
+  operation: () => MaybePromise<T>,
+  fallback: T,
+  message: string
+): MaybePromise<T> {
+  const handleError = () => {
+    console.warn(message);
+    return fallback;
+  };
+
+  try {
+    const result = operation();
+    return isPromise(result) ? result.catch(handleError) : result;
+  } catch {
+    return handleError();
+  }
+}
+
+export function getTokenStorage(
+  context: Pick<CapHookProps, 'storage' | 'localStorageEnabled'>
+): CapStorage | undefined {
+  return (
+    context.storage ??
+    (context.localStorageEnabled ? localStorageAdapter : undefined)
+  );
+}
+
+export function getStorageItem(
+  storage: SyncCapStorage,
+  key: string,
+  refreshBufferMs?: number
+): CapToken | null;
+export function getStorageItem(
+  storage: CapStorage,
+  key: string,
+  refreshBufferMs?: number
+): MaybePromise<CapToken | null>;
+export function getStorageItem(
+  storage: CapStorage,
+  key: string,
+  refreshBufferMs?: number
+) {
+  return tryStorage(
+    () =>
+      mapMaybePromise(storage.getItem(key), (item) =>
+        parseCapToken(item, refreshBufferMs)
+      ),
+    null,
+    '[cap] Failed to parse token from storage'
+  );
+}
+
+export function getStorageItems(
+  storage: SyncCapStorage,
+  key: string,
+  refreshBufferMs?: number
+): CapToken[];
+export function getStorageItems(
+  storage: CapStorage,
+  key: string,
+  refreshBufferMs?: number
+): MaybePromise<CapToken[]>;
+export function getStorageItems(
+  storage: CapStorage,
+  key: string,
+  refreshBufferMs?: number
+) {
+  return tryStorage(
+    () =>
+      mapMaybePromise(storage.getItem(key), (item) =>
+        parseCapTokens(item, refreshBufferMs)
+      ),
+    [],
+    '[cap] Failed to parse tokens from storage'
+  );
+}
+
+export function setStorageItem(
+  storage: CapStorage,
+  key: string,
+  value: CapToken | CapToken[]
+) {
+  return tryStorage(
+    () => storage.setItem(key, JSON.stringify(value)),
+    undefined,
+    '[cap] Failed to save token to storage'
+  );
+}
+
+export function removeStorageItem(storage: CapStorage, key: string) {
+  return tryStorage(
+    () => storage.removeItem(key),
+    undefined,
+    '[cap] Failed to remove token from storage'
+  );
+}
+
+export function setLocalStorageItem(localStorageKey: string, token: CapToken) {
+  setStorageItem(localStorageAdapter, localStorageKey, token);
+}
+
+export function getLocalStorageItem(localStorageKey: string): CapToken | null {
+  return getStorageItem(localStorageAdapter, localStorageKey);
+}
+
+export function setLocalStorageItems(
+  localStorageKey: string,
+  tokens: CapToken[]
+) {
+  setStorageItem(localStorageAdapter, localStorageKey, tokens);
+}
+
+export function getLocalStorageItems(localStorageKey: string): CapToken[] {
+  return getStorageItems(localStorageAdapter, localStorageKey);
+}
+
 export function removeLocalStorageItem(localStorageKey: string) {
-  localStorage.removeItem(localStorageKey);
+  removeStorageItem(localStorageAdapter, localStorageKey);
 }
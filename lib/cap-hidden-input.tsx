@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { DEFAULT_CAP_TOKEN_FIELD_NAME } from './constants.ts';
+import type { CapHookProps } from './types.ts';
+import { useCap } from './use-cap.ts';
+
+export type CapHiddenInputProps = CapHookProps & {
+  /** The form field the token is submitted as. Defaults to `'cap-token'`. */
+  name?: string;
+};
+
+/**
+ * A hidden input carrying the token for a form. With the default
+ * `trigger: 'intent'` it starts solving once someone interacts with the form
+ * it is in.
+ */
+export function CapHiddenInput(props: CapHiddenInputProps) {
+  const {
+    name = DEFAULT_CAP_TOKEN_FIELD_NAME,
+    trigger = 'intent',
+    ...options
+  } = props;
+  const { status, token, bind } = useCap({ ...options, trigger });
+  const ref = useCallback(
+    (input: HTMLInputElement | null) => bind(input?.form ?? null),
+    [bind]
+  );
+
+  return (
+    <input
+      ref={ref}
+      type="hidden"
+      name={name}
+      // Only a token the server will still accept is submitted
+      value={status === 'solved' ? (token?.token ?? '') : ''}
+    />
+  );
+}
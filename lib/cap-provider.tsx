@@ -0,0 +1,225 @@
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore
+} from 'react';
+import { isTokenExpired } from './api.ts';
+import { DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY } from './constants.ts';
+import { CapAbortError, CapConfigError, toCapError } from './errors.ts';
+import {
+  consumeCapToken,
+  type GetCapTokenProps,
+  getCapToken,
+  getFreshCapToken,
+  loadCapTokenState,
+  resetCapToken
+} from './token.ts';
+import {
+  getTokenState,
+  setTokenState,
+  subscribeTokenState
+} from './token-state.ts';
+import type {
+  CapHookProps,
+  FreshTokenOptions,
+  SolveOptions,
+  UseCapContext
+} from './types.ts';
+
+type CapContextValue = GetCapTokenProps &
+  Pick<CapHookProps, 'onReset'> & {
+    tokenKey: string;
+  };
+
+const CapContext = createContext<CapContextValue | null>(null);
+
+export type CapProviderProps = Omit<CapHookProps, 'trigger'> & {
+  children?: ReactNode;
+};
+
+/**
+ * Shares the token for `tokenKey` with every `useCapContext()` below it, so
+ * they all show the same token, progress and error.
+ */
+export function CapProvider(props: CapProviderProps) {
+  const {
+    children,
+    endpoint,
+    endpoints,
+    workersCount,
+    solver,
+    workerUrl,
+    localStorageEnabled = true,
+    storage,
+    tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+    onSolve,
+    onError,
+    onProgress,
+    onProgressDetail,
+    onReset,
+    challengeHeaders,
+    redeemHeaders,
+    fetch,
+    requestInterceptor,
+    responseInterceptor,
+    refreshAutomatically = true,
+    refreshBufferMs,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    maxTokenLifetimeMs,
+    pauseWhenHidden,
+    retry,
+    poolSize,
+    crossTab
+  } = props;
+
+  useEffect(() => {
+    void loadCapTokenState({
+      tokenKey,
+      localStorageEnabled,
+      storage,
+      poolSize,
+      refreshBufferMs
+    });
+  }, [tokenKey, localStorageEnabled, storage, poolSize, refreshBufferMs]);
+
+  // A new value re-renders every consumer and changes the identity of the
+  // functions they return
+  const value = useMemo(
+    () => ({
+      endpoint,
+      endpoints,
+      workersCount,
+      solver,
+      workerUrl,
+      localStorageEnabled,
+      storage,
+      tokenKey,
+      onSolve,
+      onError,
+      onProgress,
+      onProgressDetail,
+      onReset,
+      challengeHeaders,
+      redeemHeaders,
+      fetch,
+      requestInterceptor,
+      responseInterceptor,
+      refreshAutomatically,
+      refreshBufferMs,
+      challengeTimeoutMs,
+      solveTimeoutMs,
+      maxTokenLifetimeMs,
+      pauseWhenHidden,
+      retry,
+      poolSize,
+      crossTab
+    }),
+    [
+      endpoint,
+      endpoints,
+      workersCount,
+      solver,
+      workerUrl,
+      localStorageEnabled,
+      storage,
+      tokenKey,
+      onSolve,
+      onError,
+      onProgress,
+      onProgressDetail,
+      onReset,
+      challengeHeaders,
+      redeemHeaders,
+      fetch,
+      requestInterceptor,
+      responseInterceptor,
+      refreshAutomatically,
+      refreshBufferMs,
+      challengeTimeoutMs,
+      solveTimeoutMs,
+      maxTokenLifetimeMs,
+      pauseWhenHidden,
+      retry,
+      poolSize,
+      crossTab
+    ]
+  );
+
+  return <CapContext.Provider value={value}>{children}</CapContext.Provider>;
+}
+
+/**
+ * `useCap()` for components inside a `<CapProvider>`. Every component reads
+ * the same state, so a solve or reset started in one shows in all of them.
+ */
+export function useCapContext(): UseCapContext {
+  const context = useContext(CapContext);
+  if (!context) {
+    throw new CapConfigError(
+      'useCapContext() must be used inside a <CapProvider>'
+    );
+  }
+
+  const { tokenKey, refreshBufferMs, onError, onReset } = context;
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeTokenState(tokenKey, listener),
+    [tokenKey]
+  );
+  const getSnapshot = useCallback(() => getTokenState(tokenKey), [tokenKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const run = useCallback(
+    async (getToken: typeof getCapToken, options?: SolveOptions) => {
+      try {
+        return await getToken({ ...context, signal: options?.signal });
+      } catch (error) {
+        if (error instanceof CapAbortError) {
+          throw error;
+        }
+        const capError = toCapError(error, 'solve');
+        setTokenState(tokenKey, { error: capError });
+        onError?.(capError);
+      }
+    },
+    [context, tokenKey, onError]
+  );
+
+  const solve = useCallback(
+    async (options?: SolveOptions) => {
+      const { token } = getTokenState(tokenKey);
+      if (token && !isTokenExpired(token, refreshBufferMs)) {
+        return token;
+      }
+      return run(getCapToken, options);
+    },
+    [run, tokenKey, refreshBufferMs]
+  );
+
+  const consume = useCallback(
+    (options?: SolveOptions) => run(consumeCapToken, options),
+    [run]
+  );
+
+  const getFreshToken = useCallback(
+    (options: FreshTokenOptions = {}) => {
+      const { timeoutMs, consume, ...solveOptions } = options;
+      return run(
+        (props) => getFreshCapToken({ ...props, timeoutMs, consume }),
+        solveOptions
+      );
+    },
+    [run]
+  );
+
+  const reset = useCallback(() => {
+    resetCapToken(context);
+    onReset?.();
+  }, [context, onReset]);
+
+  return { ...state, solve, consume, getFreshToken, reset };
+}
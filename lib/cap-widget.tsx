@@ -0,0 +1,232 @@
+import type { CSSProperties } from 'react';
+import { DEFAULT_CAP_TOKEN_FIELD_NAME } from './constants.ts';
+import type { CapHookProps, CapStatus } from './types.ts';
+import { useCap } from './use-cap.ts';
+
+export type CapWidgetStrings = {
+  initialState: string;
+  verifyingLabel: string;
+  solvedLabel: string;
+  errorLabel: string;
+  expiredLabel: string;
+  verifyAriaLabel: string;
+  verifyingAriaLabel: string;
+  verifiedAriaLabel: string;
+  errorAriaLabel: string;
+  expiredAriaLabel: string;
+};
+
+export type CapWidgetProps = CapHookProps & {
+  /** The form field the token is submitted as. Defaults to `'cap-token'`. */
+  name?: string;
+  /** Replaces any of the English strings shown and announced. */
+  i18n?: Partial<CapWidgetStrings>;
+  className?: string;
+  style?: CSSProperties;
+};
+
+type WidgetState = 'initial' | 'verifying' | 'solved' | 'error' | 'expired';
+
+// The same defaults as the Cap.js widget's data-cap-i18n-* attributes
+const defaultStrings: CapWidgetStrings = {
+  initialState: "I'm a human",
+  verifyingLabel: 'Verifying…',
+  solvedLabel: "I'm a human",
+  errorLabel: 'Error',
+  expiredLabel: 'Expired',
+  verifyAriaLabel: "Click to verify you're a human",
+  verifyingAriaLabel: "Verifying you're a human, please wait",
+  verifiedAriaLabel: "We have verified you're a human, you may now continue",
+  errorAriaLabel: 'An error occurred, please try again',
+  expiredAriaLabel: 'The verification expired, please try again'
+};
+
+const WIDGET_STATES: Record<CapStatus, WidgetState> = {
+  idle: 'initial',
+  fetching: 'verifying',
+  solving: 'verifying',
+  redeeming: 'verifying',
+  solved: 'solved',
+  error: 'error',
+  expired: 'expired'
+};
+
+// The visible label and the accessible name of each state
+const LABELS: Record<
+  WidgetState,
+  [keyof CapWidgetStrings, keyof CapWidgetStrings]
+> = {
+  initial: ['initialState', 'verifyAriaLabel'],
+  verifying: ['verifyingLabel', 'verifyingAriaLabel'],
+  solved: ['solvedLabel', 'verifiedAriaLabel'],
+  error: ['errorLabel', 'errorAriaLabel'],
+  expired: ['expiredLabel', 'expiredAriaLabel']
+};
+
+const RING_RADIUS = 10;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+// Inline, so the widget needs no stylesheet, and themed through the same
+// custom properties as the Cap.js widget
+const styles = {
+  widget: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 'var(--cap-gap, 15px)',
+    boxSizing: 'border-box',
+    width: 'var(--cap-widget-width, 230px)',
+    height: 'var(--cap-widget-height, 58px)',
+    padding: 'var(--cap-widget-padding, 14px)',
+    border: '1px solid var(--cap-border-color, #dddddd8f)',
+    borderRadius: 'var(--cap-border-radius, 14px)',
+    background: 'var(--cap-background, #fdfdfd)',
+    color: 'var(--cap-color, #212121)',
+    font: 'var(--cap-font, 15px system-ui, -apple-system, sans-serif)',
+    textAlign: 'left',
+    cursor: 'pointer'
+  },
+  checkbox: {
+    flex: 'none',
+    boxSizing: 'border-box',
+    width: 'var(--cap-checkbox-size, 25px)',
+    height: 'var(--cap-checkbox-size, 25px)',
+    border: 'var(--cap-checkbox-border, 1px solid #aaaaaad1)',
+    borderRadius: 'var(--cap-checkbox-border-radius, 6px)',
+    background: 'var(--cap-checkbox-background, #fafafa91)'
+  },
+  icon: {
+    flex: 'none',
+    width: 'var(--cap-checkbox-size, 25px)',
+    height: 'var(--cap-checkbox-size, 25px)'
+  },
+  ringTrack: {
+    stroke: 'var(--cap-spinner-background-color, #eee)',
+    strokeWidth: 'var(--cap-spinner-thickness, 3px)'
+  },
+  ring: {
+    stroke: 'var(--cap-spinner-color, #000)',
+    strokeWidth: 'var(--cap-spinner-thickness, 3px)',
+    strokeLinecap: 'round',
+    transition: 'stroke-dashoffset 0.2s'
+  },
+  checkmark: {
+    stroke: 'var(--cap-checkmark-color, #00a67d)',
+    strokeWidth: 2.5
+  },
+  cross: {
+    stroke: 'var(--cap-error-color, #e5484d)',
+    strokeWidth: 2.5
+  },
+  visuallyHidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    margin: -1,
+    padding: 0,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0
+  }
+} satisfies Record<string, CSSProperties>;
+
+function ProgressRing({ progress }: { progress: number | null }) {
+  // Before the first progress report a quarter of the ring shows
+  const offset = RING_CIRCUMFERENCE * (1 - (progress ?? 25) / 100);
+
+  return (
+    <svg viewBox="0 0 24 24" fill="none" style={styles.icon} aria-hidden="true">
+      <circle cx="12" cy="12" r={RING_RADIUS} style={styles.ringTrack} />
+      <circle
+        cx="12"
+        cy="12"
+        r={RING_RADIUS}
+        transform="rotate(-90 12 12)"
+        strokeDasharray={RING_CIRCUMFERENCE}
+        strokeDashoffset={offset}
+        style={styles.ring}
+      />
+    </svg>
+  );
+}
+
+function Icon({ path, style }: { path: string; style: CSSProperties }) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      style={styles.icon}
+      aria-hidden="true"
+    >
+      <path d={path} style={style} />
+    </svg>
+  );
+}
+
+/**
+ * A checkbox-style widget like the Cap.js one, built on `useCap()`. Clicking
+ * it, or pressing Space or Enter while it has focus, starts solving, and a
+ * hidden input carries the token for the form it is in.
+ */
+export function CapWidget(props: CapWidgetProps) {
+  const {
+    name = DEFAULT_CAP_TOKEN_FIELD_NAME,
+    i18n,
+    className,
+    style,
+    ...options
+  } = props;
+  const { status, progress, token, solve } = useCap(options);
+  const strings = { ...defaultStrings, ...i18n };
+  const state = WIDGET_STATES[status];
+  const busy = state === 'verifying';
+
+  const [labelKey, ariaLabelKey] = LABELS[state];
+  const label = strings[labelKey];
+  const ariaLabel = strings[ariaLabelKey];
+
+  const handleClick = () => {
+    if (state !== 'verifying' && state !== 'solved') {
+      void solve().catch(() => {});
+    }
+  };
+
+  return (
+    <>
+      {/* biome-ignore lint/a11y/useSemanticElements: a button keeps its focus ring and Enter, which a visually hidden checkbox would lose */}
+      <button
+        type="button"
+        role="checkbox"
+        aria-checked={state === 'solved'}
+        aria-busy={busy}
+        aria-disabled={busy || state === 'solved'}
+        aria-label={ariaLabel}
+        data-state={state}
+        className={className}
+        style={{ ...styles.widget, ...style }}
+        onClick={handleClick}
+      >
+        {busy ? (
+          <ProgressRing progress={progress} />
+        ) : state === 'solved' ? (
+          <Icon path="M5 12.5l4.5 4.5L19 7.5" style={styles.checkmark} />
+        ) : state === 'error' ? (
+          <Icon path="M7 7l10 10M17 7L7 17" style={styles.cross} />
+        ) : (
+          <span style={styles.checkbox} />
+        )}
+        <span>{label}</span>
+      </button>
+      <output style={styles.visuallyHidden}>
+        {state === 'initial' ? '' : ariaLabel}
+      </output>
+      <input
+        type="hidden"
+        name={name}
+        value={status === 'solved' ? (token?.token ?? '') : ''}
+      />
+    </>
+  );
+}
@@ -0,0 +1,308 @@
+import {
+  CROSS_TAB_CHANNEL_NAME,
+  CROSS_TAB_ELECTION_IN_MS,
+  CROSS_TAB_HEARTBEAT_IN_MS,
+  CROSS_TAB_LEASE_IN_MS
+} from './constants.ts';
+import {
+  CapAbortError,
+  CapError,
+  type CapErrorCode,
+  type CapErrorPhase,
+  raceSignal,
+  toCapError
+} from './errors.ts';
+import { sleep } from './retry.ts';
+import type { CapToken } from './types.ts';
+
+export type CrossTabMessage = { tokenKey: string; tabId: string } & (
+  | { type: 'claim'; at: number }
+  | { type: 'release' }
+  | { type: 'solved'; token: CapToken }
+  | {
+      type: 'failed';
+      code: CapErrorCode;
+      phase: CapErrorPhase;
+      message: string;
+    }
+  | { type: 'reset' }
+);
+
+export type CrossTabListener = (message: CrossTabMessage) => void;
+
+export type CrossTabTransport = {
+  post: (message: CrossTabMessage) => void;
+  subscribe: (listener: CrossTabListener) => () => void;
+};
+
+export type TabCoordinator = ReturnType<typeof createTabCoordinator>;
+
+type Claim = { tabId: string; at: number; seenAt: number };
+
+type Outcome =
+  | Extract<CrossTabMessage, { type: 'solved' | 'failed' | 'release' }>
+  | { type: 'stale' };
+
+export function createBroadcastChannelTransport(
+  name = CROSS_TAB_CHANNEL_NAME
+): CrossTabTransport | undefined {
+  if (typeof BroadcastChannel !== 'function') {
+    return undefined;
+  }
+
+  const channel = new BroadcastChannel(name);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handleMessage = ({ data }: MessageEvent<CrossTabMessage>) =>
+        listener(data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    }
+  };
+}
+
+// `storage` events only reach other tabs, which is exactly what we need
+export function createStorageEventTransport(
+  key = CROSS_TAB_CHANNEL_NAME
+): CrossTabTransport | undefined {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return undefined;
+  }
+
+  return {
+    post: (message) => {
+      try {
+        // The nonce makes every write a change, even for repeated messages
+        localStorage.setItem(
+          key,
+          JSON.stringify({ message, nonce: Math.random() })
+        );
+        localStorage.removeItem(key);
+      } catch {
+        console.warn('[cap] Failed to post cross-tab message');
+      }
+    },
+    subscribe: (listener) => {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) {
+          return;
+        }
+        try {
+          listener(JSON.parse(event.newValue).message);
+        } catch {
+          console.warn('[cap] Failed to parse cross-tab message');
+        }
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    }
+  };
+}
+
+function isEarlierClaim(a: Omit<Claim, 'seenAt'>, b: Omit<Claim, 'seenAt'>) {
+  return a.at < b.at || (a.at === b.at && a.tabId < b.tabId);
+}
+
+function createTabId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Elects one tab to solve each `tokenKey`. The other tabs wait for its result
+ * instead of solving themselves, and take over if it stops sending heartbeats.
+ */
+export function createTabCoordinator(
+  transport: CrossTabTransport,
+  tabId = createTabId()
+) {
+  const claims = new Map<string, Claim>();
+  // When this tab's claim was made, for each tokenKey it is solving
+  const leading = new Map<string, number>();
+  const listeners = new Set<CrossTabListener>();
+
+  transport.subscribe((message) => {
+    if (message.tabId === tabId) {
+      return;
+    }
+
+    if (message.type === 'claim') {
+      const at = leading.get(message.tokenKey);
+      if (at !== undefined && isEarlierClaim({ tabId, at }, message)) {
+        // A tab that started later would otherwise only hear from this one at
+        // the next heartbeat, long after its election
+        transport.post({
+          type: 'claim',
+          tokenKey: message.tokenKey,
+          tabId,
+          at
+        });
+      }
+
+      const claim = claims.get(message.tokenKey);
+      // Keep the earliest claim, which is the one that wins the election
+      if (
+        !claim ||
+        claim.tabId === message.tabId ||
+        isEarlierClaim(message, claim)
+      ) {
+        claims.set(message.tokenKey, {
+          tabId: message.tabId,
+          at: message.at,
+          seenAt: Date.now()
+        });
+      }
+    } else if (claims.get(message.tokenKey)?.tabId === message.tabId) {
+      claims.delete(message.tokenKey);
+    }
+
+    for (const listener of listeners) {
+      listener(message);
+    }
+  });
+
+  const subscribe = (listener: CrossTabListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getActiveClaim = (tokenKey: string) => {
+    const claim = claims.get(tokenKey);
+    if (claim && Date.now() - claim.seenAt > CROSS_TAB_LEASE_IN_MS) {
+      claims.delete(tokenKey);
+      return undefined;
+    }
+    return claim;
+  };
+
+  const waitForOutcome = (tokenKey: string, leaderId: string) =>
+    new Promise<Outcome>((resolve) => {
+      let lease: ReturnType<typeof setTimeout>;
+
+      const finish = (outcome: Outcome) => {
+        clearTimeout(lease);
+        unsubscribe();
+        resolve(outcome);
+      };
+
+      const renewLease = () => {
+        clearTimeout(lease);
+        lease = setTimeout(
+          () => finish({ type: 'stale' }),
+          CROSS_TAB_LEASE_IN_MS
+        );
+      };
+
+      const unsubscribe = subscribe((message) => {
+        if (message.tokenKey !== tokenKey || message.tabId !== leaderId) {
+          return;
+        }
+        if (message.type === 'claim') {
+          renewLease();
+        } else if (message.type !== 'reset') {
+          finish(message);
+        }
+      });
+
+      renewLease();
+    });
+
+  const lead = async (
+    tokenKey: string,
+    at: number,
+    solve: () => Promise<CapToken>
+  ) => {
+    leading.set(tokenKey, at);
+    const heartbeat = setInterval(() => {
+      transport.post({ type: 'claim', tokenKey, tabId, at });
+    }, CROSS_TAB_HEARTBEAT_IN_MS);
+
+    try {
+      const token = await solve();
+      transport.post({ type: 'solved', tokenKey, tabId, token });
+      return token;
+    } catch (error) {
+      const capError = toCapError(error, 'solve');
+      if (capError instanceof CapAbortError) {
+        // Let another tab take over rather than failing everyone
+        transport.post({ type: 'release', tokenKey, tabId });
+      } else {
+        transport.post({
+          type: 'failed',
+          tokenKey,
+          tabId,
+          code: capError.code,
+          phase: capError.phase,
+          message: capError.message
+        });
+      }
+      throw capError;
+    } finally {
+      leading.delete(tokenKey);
+      clearInterval(heartbeat);
+    }
+  };
+
+  const run = async (
+    tokenKey: string,
+    solve: () => Promise<CapToken>,
+    signal?: AbortSignal
+  ): Promise<CapToken> => {
+    for (;;) {
+      const leader = getActiveClaim(tokenKey);
+
+      if (leader) {
+        const outcome = await raceSignal(
+          waitForOutcome(tokenKey, leader.tabId),
+          signal
+        );
+        if (outcome.type === 'solved') {
+          return outcome.token;
+        }
+        if (outcome.type === 'failed') {
+          throw new CapError(outcome.code, outcome.message, {
+            phase: outcome.phase
+          });
+        }
+        // The leader gave up or went away, so hold a new election
+        claims.delete(tokenKey);
+        continue;
+      }
+
+      const at = Date.now();
+      transport.post({ type: 'claim', tokenKey, tabId, at });
+      await sleep(CROSS_TAB_ELECTION_IN_MS, signal);
+
+      const competitor = getActiveClaim(tokenKey);
+      if (competitor && isEarlierClaim(competitor, { tabId, at })) {
+        continue;
+      }
+
+      return lead(tokenKey, at, solve);
+    }
+  };
+
+  const broadcastReset = (tokenKey: string) => {
+    transport.post({ type: 'reset', tokenKey, tabId });
+  };
+
+  return { tabId, run, subscribe, broadcastReset };
+}
+
+let defaultCoordinator: TabCoordinator | null | undefined;
+
+/**
+ * The coordinator for this tab, or `undefined` where neither BroadcastChannel
+ * nor `storage` events are available.
+ */
+export function getTabCoordinator() {
+  if (defaultCoordinator === undefined) {
+    const transport =
+      createBroadcastChannelTransport() ?? createStorageEventTransport();
+    defaultCoordinator = transport ? createTabCoordinator(transport) : null;
+  }
+  return defaultCoordinator ?? undefined;
+}
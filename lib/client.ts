@@ -0,0 +1,463 @@
+import {
+  getExpiresIn,
+  getStorageItem,
+  getTokenStorage,
+  isTokenExpired
+} from './api.ts';
+import {
+  DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+  MAX_TIMEOUT_IN_MS
+} from './constants.ts';
+import {
+  CapAbortError,
+  type SharedTask,
+  shareTask,
+  toCapError
+} from './errors.ts';
+import { isPromise, type MaybePromise, mapMaybePromise } from './storage.ts';
+import {
+  cancelRefresh,
+  consumeCapToken,
+  type GetCapTokenProps,
+  getCapToken,
+  getCapTokenPool,
+  getFreshCapToken,
+  resetCapToken,
+  subscribeCrossTab
+} from './token.ts';
+import { getTokenState, subscribeTokenState } from './token-state.ts';
+import type {
+  CapClientOptions,
+  CapClientState,
+  CapProgressPhase,
+  CapStatus,
+  CapToken,
+  FreshTokenOptions,
+  SolveOptions
+} from './types.ts';
+import { isPageHidden, subscribeVisibility } from './visibility.ts';
+
+export type CapClient = ReturnType<typeof createCapClient>;
+
+type StoredTokenProps = Pick<
+  GetCapTokenProps,
+  'localStorageEnabled' | 'storage' | 'poolSize' | 'refreshBufferMs'
+> & {
+  tokenKey: string;
+};
+
+const PHASE_STATUS: Record<CapProgressPhase, CapStatus> = {
+  challenge: 'fetching',
+  solve: 'solving',
+  redeem: 'redeeming'
+};
+
+// Changing any of these means the client is looking at a different token
+const TOKEN_SOURCE_OPTIONS = [
+  'tokenKey',
+  'localStorageEnabled',
+  'storage',
+  'poolSize',
+  'refreshBufferMs',
+  'crossTab',
+  'pauseWhenHidden'
+] as const;
+
+const INTENT_EVENTS = ['focusin', 'pointerdown', 'keydown'] as const;
+
+function getStoredToken(
+  props: StoredTokenProps
+): MaybePromise<CapToken | null> {
+  if (props.poolSize) {
+    return mapMaybePromise(getCapTokenPool(props), (pool) => pool[0] ?? null);
+  }
+  const storage = getTokenStorage(props);
+  return storage
+    ? getStorageItem(storage, props.tokenKey, props.refreshBufferMs)
+    : null;
+}
+
+function getStatus(
+  state: Omit<CapClientState, 'status'>,
+  expired: boolean
+): CapStatus {
+  if (state.solving) {
+    return state.progressDetail
+      ? PHASE_STATUS[state.progressDetail.phase]
+      : 'fetching';
+  }
+  if (state.error) {
+    return 'error';
+  }
+  if (state.token) {
+    return expired ? 'expired' : 'solved';
+  }
+  return 'idle';
+}
+
+/**
+ * The state and actions behind `useCap()`, without React. `subscribe` is
+ * called on every change of `getState()`, and while anything is subscribed the
+ * client follows other callers and tabs using the same `tokenKey`, the page
+ * visibility and the token's expiry.
+ */
+export function createCapClient(initialOptions: CapClientOptions) {
+  let options = initialOptions;
+  const listeners = new Set<() => void>();
+  let stop: (() => void) | undefined;
+  let disposed = false;
+  let expired = false;
+  let expiryTimeout: ReturnType<typeof setTimeout> | undefined;
+  let pendingSolve: SharedTask<CapToken | undefined> | null = null;
+  // Only the latest read of the stored token is applied
+  let loadId = 0;
+
+  const getStoredTokenProps = (): StoredTokenProps => {
+    const {
+      tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+      localStorageEnabled = true,
+      storage,
+      poolSize,
+      refreshBufferMs
+    } = options;
+    return {
+      tokenKey,
+      localStorageEnabled,
+      storage,
+      poolSize,
+      refreshBufferMs
+    };
+  };
+
+  const storedToken = getStoredToken(getStoredTokenProps());
+  let state: CapClientState = {
+    // Async storage is read once something subscribes
+    token: isPromise(storedToken) ? null : storedToken,
+    solving: false,
+    paused: Boolean(options.pauseWhenHidden) && isPageHidden(),
+    progress: null,
+    progressDetail: null,
+    error: null,
+    status: 'idle'
+  };
+  state.status = getStatus(state, expired);
+
+  const emit = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const scheduleExpiry = (token: CapToken | null) => {
+    clearTimeout(expiryTimeout);
+    expiryTimeout = undefined;
+    expired = token ? getExpiresIn(token) <= 0 : false;
+
+    if (token && !expired && stop) {
+      const expiresIn = getExpiresIn(token);
+      if (expiresIn <= MAX_TIMEOUT_IN_MS) {
+        expiryTimeout = setTimeout(() => {
+          expired = true;
+          setState({});
+        }, expiresIn);
+      }
+    }
+  };
+
+  const setState = (update: Partial<Omit<CapClientState, 'status'>>) => {
+    if (disposed) {
+      return;
+    }
+
+    const next = { ...state, ...update };
+    if (next.token !== state.token) {
+      scheduleExpiry(next.token);
+    }
+    next.status = getStatus(next, expired);
+
+    const keys = Object.keys(next) as Array<keyof CapClientState>;
+    if (keys.some((key) => next[key] !== state[key])) {
+      state = next;
+      emit();
+    }
+  };
+
+  const syncStoredToken = async () => {
+    setState({ token: await getStoredToken(getStoredTokenProps()) });
+  };
+
+  const loadStoredToken = () => {
+    const id = ++loadId;
+    void mapMaybePromise(getStoredToken(getStoredTokenProps()), (token) => {
+      if (id === loadId && token) {
+        setState({ token });
+      }
+    });
+  };
+
+  const getTokenProps = (): GetCapTokenProps => {
+    const {
+      refreshAutomatically = true,
+      onSolve,
+      onError,
+      onProgress,
+      onProgressDetail,
+      onReset: _onReset,
+      ...rest
+    } = options;
+    const { tokenKey, localStorageEnabled, poolSize } = getStoredTokenProps();
+
+    return {
+      ...rest,
+      tokenKey,
+      localStorageEnabled,
+      refreshAutomatically,
+      onProgress: (progress) => {
+        setState({ progress });
+        onProgress?.(progress);
+      },
+      onProgressDetail: (progressDetail) => {
+        setState({ progressDetail });
+        onProgressDetail?.(progressDetail);
+      },
+      onSolve: (newToken) => {
+        // In pool mode the client shows the next token to be consumed
+        if (poolSize) {
+          void syncStoredToken();
+        } else {
+          setState({ token: newToken });
+        }
+        onSolve?.(newToken);
+      },
+      onError: (capError) => {
+        setState({ error: capError });
+        onError?.(capError);
+      }
+    };
+  };
+
+  const clear = () => {
+    cancelRefresh(getStoredTokenProps().tokenKey);
+    setState({ token: null, progress: 0, progressDetail: null, error: null });
+    options.onReset?.();
+  };
+
+  const start = () => {
+    const { tokenKey, poolSize } = getStoredTokenProps();
+    const { crossTab, pauseWhenHidden } = options;
+    const cleanups: Array<() => void> = [];
+
+    if (pauseWhenHidden) {
+      cleanups.push(subscribeVisibility((paused) => setState({ paused })));
+    }
+
+    // Follows tokens solved, consumed or reset elsewhere for the same
+    // tokenKey, such as by withCapToken(). Only changes count, as the shared
+    // state may not have seen a token this client read from storage
+    let sharedToken = getTokenState(tokenKey).token;
+    cleanups.push(
+      subscribeTokenState(tokenKey, () => {
+        const { token } = getTokenState(tokenKey);
+        if (token !== sharedToken) {
+          sharedToken = token;
+          setState({ token });
+        }
+      })
+    );
+
+    if (crossTab && !poolSize) {
+      cleanups.push(
+        subscribeCrossTab((message) => {
+          if (message.tokenKey !== tokenKey) {
+            return;
+          }
+          if (message.type === 'solved') {
+            setState({ token: message.token, error: null });
+          } else if (message.type === 'reset') {
+            clear();
+          }
+        })
+      );
+    }
+
+    stop = () => {
+      for (const cleanup of cleanups) {
+        cleanup();
+      }
+      clearTimeout(expiryTimeout);
+      expiryTimeout = undefined;
+    };
+    scheduleExpiry(state.token);
+    setState({ paused: Boolean(pauseWhenHidden) && isPageHidden() });
+    loadStoredToken();
+  };
+
+  const run = async (
+    getToken: typeof getCapToken,
+    solveOptions?: SolveOptions
+  ) => {
+    setState({ solving: true, progress: 0, progressDetail: null, error: null });
+
+    try {
+      return await getToken({
+        ...getTokenProps(),
+        signal: solveOptions?.signal
+      });
+    } catch (error) {
+      if (error instanceof CapAbortError) {
+        throw error;
+      }
+      const capError = toCapError(error, 'solve');
+      setState({ error: capError });
+      options.onError?.(capError);
+    } finally {
+      setState({ solving: false });
+    }
+  };
+
+  const solve = (solveOptions?: SolveOptions) => {
+    const { token } = state;
+    if (token && !isTokenExpired(token, options.refreshBufferMs)) {
+      return Promise.resolve(token);
+    }
+
+    const signal = solveOptions?.signal;
+    if (pendingSolve) {
+      return pendingSolve.join(signal);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new CapAbortError(signal.reason));
+    }
+
+    const release = () => {
+      if (pendingSolve === shared) {
+        pendingSolve = null;
+      }
+    };
+
+    // Every caller, such as an intent trigger and a submit handler, shares
+    // one solve, which is only aborted once all of them have aborted
+    const shared = shareTask((solveSignal) => {
+      solveSignal.addEventListener('abort', release, { once: true });
+
+      return run(getCapToken, { signal: solveSignal })
+        .then((result) => {
+          if (result) {
+            setState({ token: result });
+            return result;
+          }
+        })
+        .finally(() => {
+          solveSignal.removeEventListener('abort', release);
+          release();
+        });
+    });
+    pendingSolve = shared;
+    return shared.join(signal);
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      if (listeners.size === 1 && !disposed) {
+        start();
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          stop?.();
+          stop = undefined;
+        }
+      };
+    },
+
+    /**
+     * Replaces the options. A different token source, such as another
+     * `tokenKey`, reads the stored token again.
+     */
+    setOptions(nextOptions: CapClientOptions) {
+      const previous = options;
+      options = nextOptions;
+
+      if (
+        stop &&
+        TOKEN_SOURCE_OPTIONS.some((key) => previous[key] !== nextOptions[key])
+      ) {
+        stop();
+        start();
+      }
+    },
+
+    solve,
+
+    async consume(solveOptions?: SolveOptions) {
+      const result = await run(consumeCapToken, solveOptions);
+      await syncStoredToken();
+      return result;
+    },
+
+    async getFreshToken(freshOptions: FreshTokenOptions = {}) {
+      const { timeoutMs, consume, ...solveOptions } = freshOptions;
+      const currentToken = state.token;
+      const result = await run(
+        (props) =>
+          getFreshCapToken({ ...props, timeoutMs, consume, currentToken }),
+        solveOptions
+      );
+
+      if (consume) {
+        await syncStoredToken();
+      } else if (result) {
+        setState({ token: result });
+      }
+      return result;
+    },
+
+    reset() {
+      const { tokenKey, localStorageEnabled, storage } = getStoredTokenProps();
+      resetCapToken({
+        tokenKey,
+        localStorageEnabled,
+        storage,
+        crossTab: options.crossTab
+      });
+      clear();
+    },
+
+    /**
+     * Starts solving on focus, pointer down or key press within `element`
+     * while there is no usable token. Returns a function that stops listening.
+     */
+    bind(element: HTMLElement) {
+      const handleIntent = () => {
+        if (state.status === 'idle' || state.status === 'expired') {
+          void solve().catch(() => {});
+        }
+      };
+
+      for (const event of INTENT_EVENTS) {
+        element.addEventListener(event, handleIntent);
+      }
+      return () => {
+        for (const event of INTENT_EVENTS) {
+          element.removeEventListener(event, handleIntent);
+        }
+      };
+    },
+
+    /**
+     * Stops following other tabs, the page visibility and the token's expiry,
+     * and drops every subscriber. Solves in flight still finish and store
+     * their token.
+     */
+    dispose() {
+      stop?.();
+      stop = undefined;
+      listeners.clear();
+      disposed = true;
+    }
+  };
+}
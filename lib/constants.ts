@@ -1,6 +1,23 @@
 export const EXPIRES_BUFFER_IN_MS = 30_000; // 30 seconds
 export const ONE_DAY_IN_MS = 86_400_000; // 24 hours
 export const DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY = 'cap-token';
+export const DEFAULT_CAP_TOKEN_FIELD_NAME = 'cap-token';
+export const POOL_KEY_SUFFIX = ':pool';
 export const MAX_WORKERS_COUNT = 16;
 export const DEFAULT_WORKERS_COUNT = 8;
 export const WORKER_TIMEOUT_IN_MS = 30_000; // 30 seconds
+export const MAX_CHALLENGE_ATTEMPTS = 2;
+// Allows this many times the expected solve time, a solve only takes longer
+// than 10 times its expected time once in about 22,000 challenges
+export const ADAPTIVE_TIMEOUT_FACTOR = 10;
+export const HASH_BATCH_SIZE = 50_000;
+export const MAIN_THREAD_HASH_BATCH_SIZE = 1_000;
+export const WORKER_IDLE_TIMEOUT_IN_MS = 60_000; // 1 minute
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_IN_MS = 500; // 0.5 seconds
+export const DEFAULT_RETRY_MAX_DELAY_IN_MS = 10_000; // 10 seconds
+export const CROSS_TAB_CHANNEL_NAME = 'use-cap';
+export const CROSS_TAB_ELECTION_IN_MS = 50;
+export const CROSS_TAB_HEARTBEAT_IN_MS = 5_000; // 5 seconds
+export const CROSS_TAB_LEASE_IN_MS = 15_000; // 15 seconds
+export const MAX_TIMEOUT_IN_MS = 2_147_483_647; // The longest setTimeout delay
@@ -0,0 +1,213 @@
+export type CapErrorCode =
+  | 'network'
+  | 'challenge-parse'
+  | 'worker-timeout'
+  | 'worker-crash'
+  | 'redeem-rejected'
+  | 'invalid-expiry'
+  | 'aborted'
+  | 'invalid-config'
+  | 'unknown';
+
+export type CapErrorPhase =
+  | 'config'
+  | 'challenge'
+  | 'solve'
+  | 'redeem'
+  | 'refresh';
+
+export type CapErrorOptions = {
+  phase: CapErrorPhase;
+  cause?: unknown;
+  status?: number;
+};
+
+export class CapError extends Error {
+  readonly code: CapErrorCode;
+  readonly phase: CapErrorPhase;
+  readonly cause: unknown;
+  readonly status: number | undefined;
+
+  constructor(code: CapErrorCode, message: string, options: CapErrorOptions) {
+    super(message);
+    this.name = 'CapError';
+    this.code = code;
+    this.phase = options.phase;
+    this.cause = options.cause;
+    this.status = options.status;
+  }
+}
+
+export class CapNetworkError extends CapError {
+  constructor(message: string, options: CapErrorOptions) {
+    super('network', message, options);
+    this.name = 'CapNetworkError';
+  }
+}
+
+export class CapChallengeParseError extends CapError {
+  constructor(message: string, options: Omit<CapErrorOptions, 'phase'> = {}) {
+    super('challenge-parse', message, { ...options, phase: 'challenge' });
+    this.name = 'CapChallengeParseError';
+  }
+}
+
+export type CapTimeoutKind = 'challenge' | 'deadline';
+
+export type CapWorkerTimeoutOptions = Omit<CapErrorOptions, 'phase'> & {
+  /**
+   * `'challenge'` when a single challenge ran out of attempts, `'deadline'`
+   * when `solveTimeoutMs` ran out.
+   */
+  timeout?: CapTimeoutKind;
+  /** Challenges solved before the timeout. */
+  completed?: number;
+  total?: number;
+  elapsedMs?: number;
+};
+
+export class CapWorkerTimeoutError extends CapError {
+  readonly timeout: CapTimeoutKind;
+  readonly completed: number | undefined;
+  readonly total: number | undefined;
+  readonly elapsedMs: number | undefined;
+
+  constructor(message: string, options: CapWorkerTimeoutOptions = {}) {
+    const {
+      timeout = 'challenge',
+      completed,
+      total,
+      elapsedMs,
+      ...rest
+    } = options;
+    super('worker-timeout', message, { ...rest, phase: 'solve' });
+    this.name = 'CapWorkerTimeoutError';
+    this.timeout = timeout;
+    this.completed = completed;
+    this.total = total;
+    this.elapsedMs = elapsedMs;
+  }
+}
+
+export class CapWorkerCrashError extends CapError {
+  constructor(message: string, options: Omit<CapErrorOptions, 'phase'> = {}) {
+    super('worker-crash', message, { ...options, phase: 'solve' });
+    this.name = 'CapWorkerCrashError';
+  }
+}
+
+export class CapRedeemRejectedError extends CapError {
+  constructor(message: string, options: Omit<CapErrorOptions, 'phase'> = {}) {
+    super('redeem-rejected', message, { ...options, phase: 'redeem' });
+    this.name = 'CapRedeemRejectedError';
+  }
+}
+
+export class CapInvalidExpiryError extends CapError {
+  constructor(message: string, options: Omit<CapErrorOptions, 'phase'> = {}) {
+    super('invalid-expiry', message, { ...options, phase: 'refresh' });
+    this.name = 'CapInvalidExpiryError';
+  }
+}
+
+export class CapConfigError extends CapError {
+  constructor(message: string, options: Omit<CapErrorOptions, 'phase'> = {}) {
+    super('invalid-config', message, { ...options, phase: 'config' });
+    this.name = 'CapConfigError';
+  }
+}
+
+export class CapAbortError extends CapError {
+  constructor(reason?: unknown, phase: CapErrorPhase = 'solve') {
+    super('aborted', 'Solve aborted', { phase, cause: reason });
+    this.name = 'CapAbortError';
+  }
+
+  get reason() {
+    return this.cause;
+  }
+}
+
+export function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function toCapError(error: unknown, phase: CapErrorPhase): CapError {
+  if (error instanceof CapError) {
+    return error;
+  }
+  return new CapError('unknown', getErrorMessage(error), {
+    phase,
+    cause: error
+  });
+}
+
+export function throwIfAborted(
+  signal?: AbortSignal,
+  phase?: CapErrorPhase
+): void {
+  if (signal?.aborted) {
+    throw new CapAbortError(signal.reason, phase);
+  }
+}
+
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new CapAbortError(signal.reason));
+      return;
+    }
+
+    const handleAbort = () => reject(new CapAbortError(signal.reason));
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', handleAbort);
+    });
+  });
+}
+
+export type SharedTask<T> = {
+  promise: Promise<T>;
+  /** Waits on the task until `signal` aborts. */
+  join: (signal?: AbortSignal) => Promise<T>;
+};
+
+/**
+ * Runs `task` for every caller that joins it. The task gets its own signal,
+ * aborted once every caller waiting on it has aborted and never while one
+ * without a signal is waiting, so the caller that started it can abort without
+ * failing the others.
+ */
+export function shareTask<T>(
+  task: (signal: AbortSignal) => Promise<T>
+): SharedTask<T> {
+  const controller = new AbortController();
+  const promise = task(controller.signal);
+  let waiting = 0;
+
+  return {
+    promise,
+    join(signal) {
+      if (signal?.aborted) {
+        return raceSignal(promise, signal);
+      }
+
+      waiting++;
+      const handleAbort = () => {
+        waiting--;
+        if (waiting === 0) {
+          controller.abort(signal?.reason);
+        }
+      };
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      return raceSignal(promise, signal).finally(() => {
+        signal?.removeEventListener('abort', handleAbort);
+      });
+    }
+  };
+}
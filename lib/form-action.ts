@@ -0,0 +1,94 @@
+import {
+  DEFAULT_CAP_TOKEN_FIELD_NAME,
+  DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY
+} from './constants.ts';
+import { CapConfigError, CapError } from './errors.ts';
+import { getFreshCapToken } from './token.ts';
+import { getTokenState } from './token-state.ts';
+import type { CapTokenOptions } from './types.ts';
+
+export type WithCapTokenOptions<Result> = CapTokenOptions & {
+  /** The form field the token is set in. Defaults to `'cap-token'`. */
+  fieldName?: string;
+  /**
+   * Whether the action's result says the server rejected the token. Defaults
+   * to checking for `{ capTokenRejected: true }`.
+   */
+  isTokenRejected?: (result: Result) => boolean;
+};
+
+function isTokenRejectedResult(result: unknown) {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    (result as { capTokenRejected?: unknown }).capTokenRejected === true
+  );
+}
+
+async function takeToken(options: CapTokenOptions) {
+  const {
+    tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+    localStorageEnabled = true,
+    onError
+  } = options;
+  let error: CapError | undefined;
+
+  const token = await getFreshCapToken({
+    ...options,
+    tokenKey,
+    localStorageEnabled,
+    // A token solved by useCap() or <CapHiddenInput> for the same tokenKey
+    currentToken: getTokenState(tokenKey).token,
+    consume: true,
+    onError: (capError) => {
+      error = capError;
+      onError?.(capError);
+    }
+  });
+
+  if (!token) {
+    throw (
+      error ??
+      new CapError('unknown', 'No token was solved', { phase: 'solve' })
+    );
+  }
+  return token.token;
+}
+
+/**
+ * Wraps a form action, or a `useActionState()` action, so the `FormData` it
+ * receives carries a fresh token. The token is taken out for single use before
+ * the action runs, and a result the server marks as a token rejection runs the
+ * action once more with a new token. Solve failures reject with a `CapError`.
+ */
+export function withCapToken<Args extends unknown[], Result>(
+  action: (...args: Args) => Promise<Result> | Result,
+  options: WithCapTokenOptions<Result>
+) {
+  const {
+    fieldName = DEFAULT_CAP_TOKEN_FIELD_NAME,
+    isTokenRejected = isTokenRejectedResult,
+    ...tokenOptions
+  } = options;
+
+  return async (...args: Args): Promise<Result> => {
+    const formData = args.find(
+      (arg): arg is FormData => arg instanceof FormData
+    );
+    if (!formData) {
+      throw new CapConfigError(
+        'withCapToken() needs an action taking FormData'
+      );
+    }
+
+    formData.set(fieldName, await takeToken(tokenOptions));
+    const result = await action(...args);
+    if (!isTokenRejected(result)) {
+      return result;
+    }
+
+    // The token may have expired on the way, so one retry with a new one
+    formData.set(fieldName, await takeToken(tokenOptions));
+    return action(...args);
+  };
+}
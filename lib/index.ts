@@ -1,5 +1,76 @@
+export type { CapHiddenInputProps } from './cap-hidden-input.tsx';
+export { CapHiddenInput } from './cap-hidden-input.tsx';
+export type { CapProviderProps } from './cap-provider.tsx';
+export { CapProvider, useCapContext } from './cap-provider.tsx';
+export type { CapWidgetProps, CapWidgetStrings } from './cap-widget.tsx';
+export { CapWidget } from './cap-widget.tsx';
+export type { CapClient } from './client.ts';
+export { createCapClient } from './client.ts';
+export type {
+  CapErrorCode,
+  CapErrorPhase,
+  CapTimeoutKind,
+  CapWorkerTimeoutOptions
+} from './errors.ts';
+export {
+  CapAbortError,
+  CapChallengeParseError,
+  CapConfigError,
+  CapError,
+  CapInvalidExpiryError,
+  CapNetworkError,
+  CapRedeemRejectedError,
+  CapWorkerCrashError,
+  CapWorkerTimeoutError
+} from './errors.ts';
+export type { WithCapTokenOptions } from './form-action.ts';
+export { withCapToken } from './form-action.ts';
+export { isRetryableError, isRetryableStatus } from './retry.ts';
+export type {
+  CapStorage,
+  IndexedDBStorageOptions,
+  MaybePromise,
+  SyncCapStorage
+} from './storage.ts';
+export {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  localStorageAdapter,
+  sessionStorageAdapter
+} from './storage.ts';
 export type { GetCapTokenContext } from './token.ts';
-export { cancelRefresh, getCapToken } from './token.ts';
-export type { CapHookProps, CapToken } from './types.ts';
+export {
+  cancelRefresh,
+  clearCapTokenPool,
+  consumeCapToken,
+  getCapToken,
+  getCapTokenPool,
+  getFreshCapToken,
+  resetCapToken
+} from './token.ts';
+export type {
+  CapClientOptions,
+  CapClientState,
+  CapEndpoints,
+  CapHeadersInit,
+  CapHookProps,
+  CapProgressDetail,
+  CapProgressPhase,
+  CapRequest,
+  CapRequestInterceptor,
+  CapResponseInterceptor,
+  CapSolver,
+  CapState,
+  CapStatus,
+  CapToken,
+  CapTokenOptions,
+  CapTrigger,
+  FreshTokenOptions,
+  RetryPolicy,
+  SolveOptions,
+  UseCapContext
+} from './types.ts';
 export type { CapProps } from './use-cap.ts';
 export { useCap } from './use-cap.ts';
+export { preloadCapToken, useCapToken } from './use-cap-token.ts';
+export { disposeWorkers } from './worker-pool.ts';
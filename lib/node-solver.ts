@@ -0,0 +1,34 @@
+import { createHash } from 'node:crypto';
+import { createRequire } from 'node:module';
+import type { CapWorkerMessage } from './types.ts';
+
+export type WasmSolver = (salt: string, target: string) => bigint;
+
+/**
+ * Loads the Node build of `@cap.js/wasm` when it is installed. It reads its
+ * `.wasm` file from disk, so it is resolved at runtime instead of bundled.
+ */
+export function loadWasmSolver(): WasmSolver | undefined {
+  try {
+    const require = createRequire(import.meta.url);
+    const wasm = require('@cap.js/wasm') as { solve_pow?: WasmSolver };
+    return wasm.solve_pow;
+  } catch {
+    return undefined;
+  }
+}
+
+export function solveWithNodeCrypto({ salt, target }: CapWorkerMessage) {
+  let nonce = 0;
+
+  while (
+    !createHash('sha256')
+      .update(`${salt}${nonce}`)
+      .digest('hex')
+      .startsWith(target)
+  ) {
+    nonce++;
+  }
+
+  return nonce;
+}
@@ -0,0 +1,26 @@
+import { parentPort } from 'node:worker_threads';
+import { loadWasmSolver, solveWithNodeCrypto } from './node-solver.ts';
+import type { CapWorkerMessage } from './types.ts';
+
+const solvePow = loadWasmSolver();
+
+parentPort?.on('message', (message: CapWorkerMessage) => {
+  try {
+    const startTime = performance.now();
+    const nonce = solvePow
+      ? Number(solvePow(message.salt, message.target))
+      : solveWithNodeCrypto(message);
+    const endTime = performance.now();
+
+    parentPort?.postMessage({
+      nonce,
+      found: true,
+      durationMs: (endTime - startTime).toFixed(2)
+    });
+  } catch (error) {
+    parentPort?.postMessage({
+      found: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
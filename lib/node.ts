@@ -0,0 +1,187 @@
+import { availableParallelism } from 'node:os';
+import { Worker } from 'node:worker_threads';
+import { getChallenge, redeemSolutions, resolveEndpoints } from './api.ts';
+import { throwIfAborted } from './errors.ts';
+import { createProgressDetail } from './progress.ts';
+import type { SolverWorker } from './solver.ts';
+import { getWorkersCount, validateTimingOptions } from './timing.ts';
+import type {
+  CapHookProps,
+  CapProgressDetail,
+  CapToken,
+  CapWorkerResult,
+  SolveOptions
+} from './types.ts';
+import { type SolverBackend, solveChallenges } from './worker-pool.ts';
+
+export type NodeCapTokenOptions = Pick<
+  CapHookProps,
+  | 'endpoint'
+  | 'endpoints'
+  | 'workersCount'
+  | 'challengeHeaders'
+  | 'redeemHeaders'
+  | 'fetch'
+  | 'requestInterceptor'
+  | 'responseInterceptor'
+  | 'retry'
+  | 'challengeTimeoutMs'
+  | 'solveTimeoutMs'
+  | 'onProgress'
+  | 'onProgressDetail'
+> &
+  SolveOptions;
+
+// Kept out of `new URL()` so bundlers leave it alone, the worker is built as a
+// separate entry next to this one
+const NODE_WORKER_FILE = './node-worker.js';
+
+// Gives a worker thread the interface of a browser Worker, which is what the
+// shared pool drives
+function createNodeWorker(): SolverWorker {
+  const worker = new Worker(new URL(NODE_WORKER_FILE, import.meta.url));
+  const solverWorker: SolverWorker = {
+    onmessage: null,
+    onerror: null,
+    postMessage: (message) => {
+      worker.ref();
+      worker.postMessage(message);
+    },
+    terminate: () => void worker.terminate()
+  };
+
+  // The pool keeps idle workers around for later solves, which must not keep
+  // the process alive
+  worker.unref();
+  worker.on('message', (data: CapWorkerResult['data']) => {
+    worker.unref();
+    if (data.found) {
+      solverWorker.onmessage?.({ data } as MessageEvent);
+    } else {
+      solverWorker.onerror?.({
+        message: data.error ?? 'unknown'
+      } as ErrorEvent);
+    }
+  });
+  worker.on('error', (error) => {
+    solverWorker.onerror?.({ message: error.message, error } as ErrorEvent);
+  });
+
+  return solverWorker;
+}
+
+const nodeBackend: SolverBackend = {
+  key: 'node',
+  create: createNodeWorker
+};
+
+/**
+ * Fetches, solves and redeems a challenge from Node, solving on
+ * `worker_threads`. Uses `@cap.js/wasm` when it is installed and `node:crypto`
+ * otherwise. Nothing is stored or refreshed, call it again for a new token.
+ */
+export async function getCapToken(
+  options: NodeCapTokenOptions
+): Promise<CapToken> {
+  const {
+    endpoint,
+    endpoints,
+    workersCount,
+    challengeHeaders,
+    redeemHeaders,
+    fetch,
+    requestInterceptor,
+    responseInterceptor,
+    retry,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    onProgress,
+    onProgressDetail,
+    signal
+  } = options;
+  const requestContext = {
+    fetch,
+    requestInterceptor,
+    responseInterceptor,
+    signal
+  };
+
+  throwIfAborted(signal);
+  resolveEndpoints(options);
+  validateTimingOptions(options);
+
+  let detail = createProgressDetail('challenge');
+  const reportProgressDetail = (nextDetail: CapProgressDetail) => {
+    detail = nextDetail;
+    onProgressDetail?.(nextDetail);
+  };
+
+  reportProgressDetail(detail);
+  const challenge = await getChallenge({
+    ...requestContext,
+    endpoint,
+    endpoints,
+    challengeHeaders,
+    retry
+  });
+  const solutions = await solveChallenges(
+    {
+      workersCount: getWorkersCount(workersCount, availableParallelism()),
+      backend: nodeBackend,
+      challengeTimeoutMs,
+      solveTimeoutMs,
+      onProgress,
+      onProgressDetail: reportProgressDetail,
+      signal
+    },
+    challenge.challenges
+  );
+  reportProgressDetail({ ...detail, phase: 'redeem', etaMs: 0 });
+  const { token, expires, clockOffset } = await redeemSolutions(
+    {
+      ...requestContext,
+      onProgress,
+      endpoint,
+      endpoints,
+      redeemHeaders,
+      retry
+    },
+    challenge.token,
+    solutions
+  );
+
+  return {
+    token,
+    expires,
+    clockOffset: clockOffset ?? challenge.clockOffset
+  };
+}
+
+export type {
+  CapErrorCode,
+  CapErrorPhase,
+  CapTimeoutKind,
+  CapWorkerTimeoutOptions
+} from './errors.ts';
+export {
+  CapAbortError,
+  CapChallengeParseError,
+  CapConfigError,
+  CapError,
+  CapNetworkError,
+  CapRedeemRejectedError,
+  CapWorkerCrashError,
+  CapWorkerTimeoutError
+} from './errors.ts';
+export type {
+  CapEndpoints,
+  CapHeadersInit,
+  CapProgressDetail,
+  CapProgressPhase,
+  CapRequest,
+  CapRequestInterceptor,
+  CapResponseInterceptor,
+  CapToken,
+  RetryPolicy
+} from './types.ts';
+export { disposeWorkers } from './worker-pool.ts';
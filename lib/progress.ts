@@ -0,0 +1,82 @@
+import type {
+  CapProgressDetail,
+  CapProgressPhase,
+  Challenge
+} from './types.ts';
+
+// Each hex character of the target has a one in 16 chance of matching
+export function getExpectedHashes([, target]: Challenge) {
+  return 16 ** target.length;
+}
+
+export function createProgressDetail(
+  phase: CapProgressPhase,
+  total = 0
+): CapProgressDetail {
+  return {
+    phase,
+    progress: 0,
+    completed: 0,
+    total,
+    durations: Array(total).fill(null),
+    hashRate: null,
+    etaMs: null
+  };
+}
+
+export type SolveProgress = ReturnType<typeof createSolveProgress>;
+
+/**
+ * Tracks solved challenges and estimates the time left from the hash rate
+ * measured so far and the hashes the remaining challenges should take.
+ */
+export function createSolveProgress(challenges: Challenge[]) {
+  const startedAt = Date.now();
+  const total = challenges.length;
+  const durations: Array<number | null> = challenges.map(() => null);
+  let completed = 0;
+  // The nonce is the number of hashes a worker tried before finding it
+  let hashes = 0;
+  // Summed over workers, so hashes / workerMs is the rate of a single worker
+  let workerMs = 0;
+  let remainingHashes = challenges.reduce(
+    (sum, challenge) => sum + getExpectedHashes(challenge),
+    0
+  );
+
+  return {
+    total,
+
+    solved(index: number, nonce: number, durationMs: number) {
+      const challenge = challenges[index];
+      if (challenge) {
+        remainingHashes -= getExpectedHashes(challenge);
+      }
+      durations[index] = durationMs;
+      completed++;
+      hashes += nonce + 1;
+      workerMs += durationMs;
+
+      const elapsedMs = Date.now() - startedAt;
+      const hashRate = elapsedMs > 0 ? (hashes / elapsedMs) * 1000 : null;
+
+      return {
+        phase: 'solve',
+        progress: Math.round((completed / total) * 100),
+        completed,
+        total,
+        durations: [...durations],
+        hashRate,
+        etaMs: hashRate ? Math.round((remainingHashes / hashRate) * 1000) : null
+      } satisfies CapProgressDetail;
+    },
+
+    getCompleted: () => completed,
+
+    getElapsedMs: () => Date.now() - startedAt,
+
+    // In hashes per millisecond, null until a solved challenge took any time
+    getWorkerHashRate: () =>
+      hashes > 0 && workerMs > 0 ? hashes / workerMs : null
+  };
+}
@@ -0,0 +1,105 @@
+import {
+  DEFAULT_RETRY_BASE_DELAY_IN_MS,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY_IN_MS
+} from './constants.ts';
+import {
+  CapAbortError,
+  type CapError,
+  type CapErrorPhase,
+  toCapError
+} from './errors.ts';
+import type { RetryPolicy } from './types.ts';
+
+export function isRetryableStatus(status: number) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * The default retry decision: network failures are retried, and so are
+ * responses whose status passes `retryOnStatus`.
+ */
+export function isRetryableError(error: CapError, policy: RetryPolicy = {}) {
+  if (error.code !== 'network') {
+    return false;
+  }
+  if (error.status === undefined) {
+    return true;
+  }
+  return (policy.retryOnStatus ?? isRetryableStatus)(error.status);
+}
+
+export function getRetryDelay(policy: RetryPolicy, attempt: number) {
+  const {
+    baseDelayMs = DEFAULT_RETRY_BASE_DELAY_IN_MS,
+    maxDelayMs = DEFAULT_RETRY_MAX_DELAY_IN_MS,
+    jitter = true
+  } = policy;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter spreads out retries from many clients failing at once
+  return jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CapAbortError(signal.reason));
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      reject(new CapAbortError(signal?.reason));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+type WithRetryOptions = {
+  policy?: RetryPolicy;
+  phase: CapErrorPhase;
+  signal?: AbortSignal;
+  shouldRetry?: (
+    error: CapError,
+    attempt: number
+  ) => boolean | Promise<boolean>;
+};
+
+/**
+ * Runs `fn` until it succeeds, the policy gives up, or `signal` aborts. Without
+ * a policy `fn` runs exactly once.
+ */
+export async function withRetry<T>(
+  options: WithRetryOptions,
+  fn: (attempt: number) => Promise<T>
+): Promise<T> {
+  const { policy, phase, signal } = options;
+  const maxAttempts = policy
+    ? (policy.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS)
+    : 1;
+  const shouldRetry =
+    options.shouldRetry ??
+    policy?.shouldRetry ??
+    ((error: CapError) => isRetryableError(error, policy));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const capError = toCapError(error, phase);
+      if (
+        !policy ||
+        attempt >= maxAttempts ||
+        capError instanceof CapAbortError ||
+        !(await shouldRetry(capError, attempt))
+      ) {
+        throw capError;
+      }
+      await sleep(getRetryDelay(policy, attempt), signal);
+    }
+  }
+}
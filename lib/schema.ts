@@ -0,0 +1,112 @@
+// Checks for the JSON the Cap server sends back. Each returns why the body is
+// invalid, naming the offending field, or `undefined` when it is valid.
+
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+function describe(value: unknown) {
+  if (value === null || Array.isArray(value)) {
+    return value === null ? 'null' : 'an array';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 32 ? `${value.slice(0, 32)}…` : value);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return typeof value;
+}
+
+function expectNonEmptyString(value: unknown, field: string) {
+  if (typeof value !== 'string' || !value) {
+    return `${field} must be a non-empty string, got ${describe(value)}`;
+  }
+}
+
+function expectFiniteNumber(value: unknown, field: string) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${field} must be a number, got ${describe(value)}`;
+  }
+}
+
+function expectOptionalNumber(value: unknown, field: string) {
+  return value === undefined ? undefined : expectFiniteNumber(value, field);
+}
+
+function expectPositiveInteger(value: unknown, field: string) {
+  if (!Number.isInteger(value) || (value as number) <= 0) {
+    return `${field} must be a positive integer, got ${describe(value)}`;
+  }
+}
+
+function checkChallengeList(challenges: unknown[]) {
+  if (challenges.length === 0) {
+    return 'challenge must not be empty';
+  }
+
+  for (const [i, challenge] of challenges.entries()) {
+    if (!Array.isArray(challenge) || challenge.length !== 2) {
+      return `challenge[${i}] must be a [salt, target] pair, got ${describe(challenge)}`;
+    }
+
+    const [salt, target] = challenge;
+    const problem = expectNonEmptyString(salt, `challenge[${i}][0]`);
+    if (problem) {
+      return problem;
+    }
+    if (typeof target !== 'string' || !HEX_PATTERN.test(target)) {
+      return `challenge[${i}][1] must be a hex string, got ${describe(target)}`;
+    }
+  }
+}
+
+export function checkChallengeResponse(body: unknown): string | undefined {
+  if (!isPlainObject(body)) {
+    return `body must be an object, got ${describe(body)}`;
+  }
+
+  const { challenge } = body;
+
+  const problem = Array.isArray(challenge)
+    ? checkChallengeList(challenge)
+    : !isPlainObject(challenge)
+      ? `challenge must be an object or an array, got ${describe(challenge)}`
+      : (expectPositiveInteger(challenge.c, 'challenge.c') ??
+        expectPositiveInteger(challenge.s, 'challenge.s') ??
+        expectPositiveInteger(challenge.d, 'challenge.d'));
+
+  return (
+    problem ??
+    expectNonEmptyString(body.token, 'token') ??
+    expectFiniteNumber(body.expires, 'expires') ??
+    expectOptionalNumber(body.timestamp, 'timestamp')
+  );
+}
+
+export function checkRedeemResponse(body: unknown): string | undefined {
+  if (!isPlainObject(body)) {
+    return `body must be an object, got ${describe(body)}`;
+  }
+
+  if (typeof body.success !== 'boolean') {
+    return `success must be a boolean, got ${describe(body.success)}`;
+  }
+
+  if (body.message !== undefined && typeof body.message !== 'string') {
+    return `message must be a string, got ${describe(body.message)}`;
+  }
+
+  // A rejected redeem carries no token
+  if (!body.success) {
+    return undefined;
+  }
+
+  return (
+    expectNonEmptyString(body.token, 'token') ??
+    expectFiniteNumber(body.expires, 'expires') ??
+    expectOptionalNumber(body.timestamp, 'timestamp')
+  );
+}
@@ -0,0 +1,124 @@
+import { HASH_BATCH_SIZE, MAIN_THREAD_HASH_BATCH_SIZE } from './constants.ts';
+import type { CapWorkerMessage } from './types.ts';
+
+// The subset of `Worker` the worker pool relies on, so a solver running on the
+// main thread can stand in for one
+export type SolverWorker = {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage: (message: CapWorkerMessage) => void;
+  terminate: () => void;
+};
+
+export type SubtleCryptoSolveOptions = {
+  batchSize?: number;
+  /** Awaited between batches of hashes. */
+  onBatch?: () => Promise<void>;
+  /** Checked between batches, stops solving when it returns true. */
+  isStopped?: () => boolean;
+};
+
+function parseTarget(target: string) {
+  const targetBytes = new Uint8Array(target.length / 2);
+  for (let k = 0; k < targetBytes.length; k++) {
+    targetBytes[k] = parseInt(target.substring(k * 2, k * 2 + 2), 16);
+  }
+  return targetBytes;
+}
+
+/**
+ * Finds the nonce with SubtleCrypto, for when the WASM solver is not
+ * available. Resolves `undefined` when stopped through `isStopped`.
+ */
+export async function solveWithSubtleCrypto(
+  { salt, target }: CapWorkerMessage,
+  options: SubtleCryptoSolveOptions = {}
+): Promise<number | undefined> {
+  const { batchSize = HASH_BATCH_SIZE, onBatch, isStopped } = options;
+  const encoder = new TextEncoder();
+  const targetBytes = parseTarget(target);
+  const targetBytesLength = targetBytes.length;
+  let nonce = 0;
+
+  while (!isStopped?.()) {
+    for (let i = 0; i < batchSize; i++) {
+      const inputBytes = encoder.encode(salt + nonce);
+      const hashBuffer = await crypto.subtle.digest('SHA-256', inputBytes);
+      const hashBytes = new Uint8Array(hashBuffer, 0, targetBytesLength);
+
+      let matches = true;
+      for (let k = 0; k < targetBytesLength; k++) {
+        if (hashBytes[k] !== targetBytes[k]) {
+          matches = false;
+          break;
+        }
+      }
+
+      if (matches) {
+        return nonce;
+      }
+
+      nonce++;
+    }
+
+    await onBatch?.();
+  }
+}
+
+// Resolving in a macrotask lets rendering and input handling run in between
+function yieldToEventLoop() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Solves on the main thread for pages where workers cannot be created. It
+ * hashes in small batches and yields to the event loop in between so the page
+ * stays responsive.
+ */
+export function createMainThreadSolver(): SolverWorker {
+  let terminated = false;
+
+  const solver: SolverWorker = {
+    onmessage: null,
+    onerror: null,
+    postMessage: (message) => {
+      const startTime = performance.now();
+
+      solveWithSubtleCrypto(message, {
+        batchSize: MAIN_THREAD_HASH_BATCH_SIZE,
+        onBatch: yieldToEventLoop,
+        isStopped: () => terminated
+      }).then(
+        (nonce) => {
+          if (nonce === undefined || terminated) {
+            return;
+          }
+          solver.onmessage?.(
+            new MessageEvent('message', {
+              data: {
+                nonce,
+                found: true,
+                durationMs: (performance.now() - startTime).toFixed(2)
+              }
+            })
+          );
+        },
+        (error: unknown) => {
+          if (!terminated) {
+            solver.onerror?.(
+              new ErrorEvent('error', {
+                error,
+                message: error instanceof Error ? error.message : String(error)
+              })
+            );
+          }
+        }
+      );
+    },
+    terminate: () => {
+      terminated = true;
+    }
+  };
+
+  return solver;
+}
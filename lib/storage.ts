@@ -0,0 +1,146 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+export type SyncCapStorage = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+export type CapStorage = {
+  getItem: (key: string) => MaybePromise<string | null>;
+  setItem: (key: string, value: string) => MaybePromise<void>;
+  removeItem: (key: string) => MaybePromise<void>;
+};
+
+export type IndexedDBStorageOptions = {
+  databaseName?: string;
+  storeName?: string;
+};
+
+export function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+  return typeof (value as Promise<T> | undefined)?.then === 'function';
+}
+
+/**
+ * Applies `fn` to a value that may or may not be a promise, staying
+ * synchronous when the value is.
+ */
+export function mapMaybePromise<T, R>(
+  value: MaybePromise<T>,
+  fn: (value: T) => R
+): MaybePromise<R> {
+  return isPromise(value) ? value.then(fn) : fn(value);
+}
+
+// The Storage object is looked up on every call because merely accessing
+// `window.localStorage` throws in sandboxed iframes
+function createWebStorage(getStorage: () => Storage): SyncCapStorage {
+  return {
+    getItem: (key) => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: (key) => getStorage().removeItem(key)
+  };
+}
+
+export const localStorageAdapter = createWebStorage(() => localStorage);
+
+export const sessionStorageAdapter = createWebStorage(() => sessionStorage);
+
+export function createMemoryStorage(): SyncCapStorage {
+  const store = new Map<string, string>();
+
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    }
+  };
+}
+
+export function createIndexedDBStorage(
+  options: IndexedDBStorageOptions = {}
+): CapStorage {
+  const { databaseName = 'use-cap', storeName = 'tokens' } = options;
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = (version?: number) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  const open = () => {
+    database ??= (async () => {
+      let version: number | undefined;
+      for (;;) {
+        let db: IDBDatabase;
+        try {
+          db = await openDatabase(version);
+        } catch (error) {
+          // Another adapter upgraded the database first, so open it as it is
+          if (version && (error as DOMException)?.name === 'VersionError') {
+            version = undefined;
+            continue;
+          }
+          throw error;
+        }
+
+        if (db.objectStoreNames.contains(storeName)) {
+          // Lets other adapters on the same database add their store, the next
+          // call opens it again
+          db.onversionchange = () => {
+            db.close();
+            database = undefined;
+          };
+          return db;
+        }
+
+        // The database exists with another adapter's store, and stores can
+        // only be created in an upgrade
+        db.close();
+        version = db.version + 1;
+      }
+    })().catch((error) => {
+      // Allow the next call to try again
+      database = undefined;
+      throw error;
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(storeName, mode).objectStore(storeName)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    }
+  };
+}
@@ -0,0 +1,118 @@
+import {
+  ADAPTIVE_TIMEOUT_FACTOR,
+  MAX_TIMEOUT_IN_MS,
+  MAX_WORKERS_COUNT,
+  ONE_DAY_IN_MS,
+  WORKER_TIMEOUT_IN_MS
+} from './constants.ts';
+import {
+  CapConfigError,
+  type CapTimeoutKind,
+  CapWorkerTimeoutError
+} from './errors.ts';
+import { getExpectedHashes, type SolveProgress } from './progress.ts';
+import type { CapHookProps, Challenge } from './types.ts';
+
+export type TimingOptions = Pick<
+  CapHookProps,
+  | 'refreshBufferMs'
+  | 'challengeTimeoutMs'
+  | 'solveTimeoutMs'
+  | 'maxTokenLifetimeMs'
+  | 'workersCount'
+>;
+
+export function checkDuration(value: unknown, name: string, min: number) {
+  if (
+    value !== undefined &&
+    (typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > MAX_TIMEOUT_IN_MS)
+  ) {
+    throw new CapConfigError(
+      `${name} must be between ${min} and ${MAX_TIMEOUT_IN_MS} milliseconds, got ${String(value)}`
+    );
+  }
+}
+
+/**
+ * Throws a `CapConfigError` for timing options that are not usable as
+ * `setTimeout` delays, or a `workersCount` that would start no worker, so a
+ * bad configuration fails before anything is solved.
+ */
+export function validateTimingOptions(options: TimingOptions) {
+  const {
+    refreshBufferMs,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    maxTokenLifetimeMs = ONE_DAY_IN_MS,
+    workersCount
+  } = options;
+
+  checkDuration(refreshBufferMs, 'refreshBufferMs', 0);
+  checkDuration(challengeTimeoutMs, 'challengeTimeoutMs', 1);
+  checkDuration(solveTimeoutMs, 'solveTimeoutMs', 1);
+  checkDuration(maxTokenLifetimeMs, 'maxTokenLifetimeMs', 1);
+
+  if (
+    workersCount !== undefined &&
+    (!Number.isInteger(workersCount) || workersCount < 1)
+  ) {
+    throw new CapConfigError(
+      `workersCount must be a positive integer, got ${String(workersCount)}`
+    );
+  }
+
+  if (refreshBufferMs !== undefined && refreshBufferMs >= maxTokenLifetimeMs) {
+    throw new CapConfigError(
+      'refreshBufferMs must be shorter than maxTokenLifetimeMs'
+    );
+  }
+}
+
+// More workers than MAX_WORKERS_COUNT only compete for the same cores
+export function getWorkersCount(
+  workersCount: number | undefined,
+  available: number
+) {
+  return Math.min(workersCount ?? available, MAX_WORKERS_COUNT);
+}
+
+export type SolveTimer = ReturnType<typeof createSolveTimer>;
+
+/**
+ * Sizes the timeout of each challenge from the hash rate `progress` measured
+ * so far, so slow devices get the time their challenges need, and describes
+ * how far the solve got when it times out.
+ */
+export function createSolveTimer(
+  progress: SolveProgress,
+  challengeTimeoutMs = WORKER_TIMEOUT_IN_MS
+) {
+  return {
+    // Until a challenge is solved `challengeTimeoutMs` applies, and each retry
+    // of a challenge gets twice the time of the attempt before
+    getTimeout(challenge: Challenge, attempt: number) {
+      const hashRate = progress.getWorkerHashRate();
+      const expectedMs = hashRate ? getExpectedHashes(challenge) / hashRate : 0;
+      return Math.min(
+        Math.max(challengeTimeoutMs, expectedMs * ADAPTIVE_TIMEOUT_FACTOR) *
+          2 ** (attempt - 1),
+        MAX_TIMEOUT_IN_MS
+      );
+    },
+
+    createError(timeout: CapTimeoutKind) {
+      return new CapWorkerTimeoutError(
+        timeout === 'deadline' ? 'Solve timeout' : 'Worker timeout',
+        {
+          timeout,
+          completed: progress.getCompleted(),
+          total: progress.total,
+          elapsedMs: progress.getElapsedMs()
+        }
+      );
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { CapState } from './types.ts';
+
+// What every component using a tokenKey should agree on. Written by token.ts
+// as solves start, progress and settle, read with useSyncExternalStore
+const initialState: CapState = {
+  token: null,
+  solving: false,
+  progress: null,
+  progressDetail: null,
+  error: null
+};
+
+const states = new Map<string, CapState>();
+const listeners = new Map<string, Set<() => void>>();
+
+// Stable between updates, as useSyncExternalStore requires
+export function getTokenState(tokenKey: string): CapState {
+  return states.get(tokenKey) ?? initialState;
+}
+
+export function setTokenState(tokenKey: string, update: Partial<CapState>) {
+  states.set(tokenKey, { ...getTokenState(tokenKey), ...update });
+  for (const listener of listeners.get(tokenKey) ?? []) {
+    listener();
+  }
+}
+
+export function resetTokenState(tokenKey: string) {
+  setTokenState(tokenKey, { ...initialState, progress: 0 });
+}
+
+export function subscribeTokenState(tokenKey: string, listener: () => void) {
+  let keyListeners = listeners.get(tokenKey);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(tokenKey, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(tokenKey);
+    }
+  };
+}
@@ -1,134 +1,824 @@
 import {
   getChallenge,
-  getLocalStorageItem,
+  getExpiresIn,
+  getStorageItem,
+  getStorageItems,
+  getTokenStorage,
+  isTokenExpired,
   redeemSolutions,
-  setLocalStorageItem,
-  solveChallenges
+  removeStorageItem,
+  resolveEndpoints,
+  setStorageItem
 } from './api.ts';
+import {
+  type CrossTabListener,
+  getTabCoordinator,
+  type TabCoordinator
+} from './channel.ts';
 import {
   DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
   DEFAULT_WORKERS_COUNT,
   EXPIRES_BUFFER_IN_MS,
-  MAX_WORKERS_COUNT,
-  ONE_DAY_IN_MS
+  ONE_DAY_IN_MS,
+  POOL_KEY_SUFFIX
 } from './constants.ts';
-import type { CapHookProps, CapToken } from './types.ts';
+import {
+  CapAbortError,
+  CapInvalidExpiryError,
+  raceSignal,
+  type SharedTask,
+  shareTask,
+  throwIfAborted,
+  toCapError
+} from './errors.ts';
+import { createProgressDetail } from './progress.ts';
+import { withRetry } from './retry.ts';
+import { type MaybePromise, mapMaybePromise } from './storage.ts';
+import {
+  checkDuration,
+  getWorkersCount,
+  validateTimingOptions
+} from './timing.ts';
+import { resetTokenState, setTokenState } from './token-state.ts';
+import type {
+  CapHookProps,
+  CapProgressDetail,
+  CapToken,
+  FreshTokenOptions,
+  SolveOptions
+} from './types.ts';
+import { isPageHidden, whenVisible } from './visibility.ts';
+import { solveChallenges } from './worker-pool.ts';
 
-const solving = new Map<string, Promise<CapToken | undefined>>();
+const solving = new Map<string, SharedTask<CapToken | undefined>>();
 const refreshTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+// Refreshes that came due while the page was hidden, waiting for it to show
+const deferredRefreshes = new Map<string, () => void>();
+// The in-memory pool is the source of truth, storage only mirrors it so the
+// pool survives reloads
+const pools = new Map<string, CapToken[]>();
+// The latest context per tokenKey, so solves from other tabs can reschedule
+// this tab's refresh
+const crossTabContexts = new Map<string, GetCapTokenContext>();
+const poolFills = new Map<string, Promise<void>>();
+const poolWaiters = new Map<
+  string,
+  Array<(token: CapToken | undefined) => void>
+>();
 
 export type GetCapTokenContext = Pick<
   CapHookProps,
   | 'endpoint'
+  | 'endpoints'
   | 'workersCount'
+  | 'solver'
+  | 'workerUrl'
+  | 'challengeHeaders'
+  | 'redeemHeaders'
+  | 'fetch'
+  | 'requestInterceptor'
+  | 'responseInterceptor'
   | 'onProgress'
+  | 'onProgressDetail'
   | 'onSolve'
   | 'onError'
   | 'refreshAutomatically'
+  | 'refreshBufferMs'
+  | 'challengeTimeoutMs'
+  | 'solveTimeoutMs'
+  | 'maxTokenLifetimeMs'
+  | 'pauseWhenHidden'
   | 'localStorageEnabled'
-> & {
-  tokenKey: string;
-};
+  | 'storage'
+  | 'retry'
+  | 'poolSize'
+  | 'crossTab'
+> &
+  SolveOptions & {
+    tokenKey: string;
+  };
 
 export type GetCapTokenProps = Omit<GetCapTokenContext, 'tokenKey'> & {
   tokenKey?: string;
 };
 
+export type GetFreshCapTokenProps = GetCapTokenProps &
+  FreshTokenOptions & {
+    /** A token already at hand, used when no solve is in flight. */
+    currentToken?: CapToken | null;
+  };
+
 async function solve(context: GetCapTokenContext): Promise<CapToken> {
   const {
     endpoint,
-    workersCount = Math.min(
-      navigator.hardwareConcurrency || DEFAULT_WORKERS_COUNT,
-      MAX_WORKERS_COUNT
-    ),
-    onProgress
+    endpoints,
+    workersCount,
+    solver,
+    workerUrl,
+    challengeHeaders,
+    redeemHeaders,
+    fetch,
+    requestInterceptor,
+    responseInterceptor,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    pauseWhenHidden,
+    onProgress,
+    onProgressDetail,
+    retry,
+    signal
   } = context;
+  const requestContext = {
+    fetch,
+    requestInterceptor,
+    responseInterceptor,
+    signal
+  };
+
+  // A redeem can fail because the challenge expired while solving, so
+  // restarting has to go all the way back to fetching a fresh challenge. The
+  // policy's own shouldRetry can still veto a restart
+  return withRetry(
+    {
+      policy: retry?.restartOnRedeemFailure ? retry : undefined,
+      phase: 'redeem',
+      signal,
+      shouldRetry: async (error, attempt) =>
+        error.phase === 'redeem' &&
+        (await (retry?.shouldRetry?.(error, attempt) ?? true))
+    },
+    async () => {
+      let detail = createProgressDetail('challenge');
+      const reportProgressDetail = (nextDetail: CapProgressDetail) => {
+        detail = nextDetail;
+        onProgressDetail?.(nextDetail);
+      };
+
+      reportProgressDetail(detail);
+      const challenge = await getChallenge({
+        ...requestContext,
+        endpoint,
+        endpoints,
+        challengeHeaders,
+        retry
+      });
+      const solutions = await solveChallenges(
+        {
+          onProgress,
+          onProgressDetail: reportProgressDetail,
+          workersCount: getWorkersCount(
+            workersCount,
+            navigator.hardwareConcurrency || DEFAULT_WORKERS_COUNT
+          ),
+          solver,
+          workerUrl,
+          challengeTimeoutMs,
+          solveTimeoutMs,
+          pauseWhenHidden,
+          signal
+        },
+        challenge.challenges
+      );
+      // Keep the solve timings so the UI can still show them while redeeming
+      reportProgressDetail({ ...detail, phase: 'redeem', etaMs: 0 });
+      const redeemed = await redeemSolutions(
+        {
+          ...requestContext,
+          onProgress,
+          endpoint,
+          endpoints,
+          redeemHeaders,
+          retry
+        },
+        challenge.token,
+        solutions
+      );
 
-  const challenge = await getChallenge({ endpoint });
-  const solutions = await solveChallenges(
-    { onProgress, workersCount },
-    challenge.challenges
+      // The redeem response is the fresher measurement of the clock skew
+      return {
+        ...redeemed,
+        clockOffset: redeemed.clockOffset ?? challenge.clockOffset
+      };
+    }
   );
-  return redeemSolutions({ onProgress, endpoint }, challenge.token, solutions);
 }
 
-function startRefresh(context: GetCapTokenContext, expires: number) {
-  const { tokenKey, onError } = context;
-  let timeout = refreshTimeouts.get(tokenKey);
+function clearRefresh(refreshKey: string) {
+  const timeout = refreshTimeouts.get(refreshKey);
   if (timeout) {
     clearTimeout(timeout);
-    refreshTimeouts.delete(tokenKey);
+    refreshTimeouts.delete(refreshKey);
   }
+  deferredRefreshes.get(refreshKey)?.();
+  deferredRefreshes.delete(refreshKey);
+}
 
-  const expiresIn = new Date(expires).getTime() - Date.now();
+function scheduleRefresh(
+  context: GetCapTokenContext,
+  refreshKey: string,
+  expiresIn: number,
+  refresh: () => void
+) {
+  const {
+    onError,
+    refreshBufferMs = EXPIRES_BUFFER_IN_MS,
+    maxTokenLifetimeMs = ONE_DAY_IN_MS,
+    pauseWhenHidden
+  } = context;
+  clearRefresh(refreshKey);
 
-  if (expiresIn > 0 && expiresIn < ONE_DAY_IN_MS) {
-    timeout = setTimeout(() => {
-      refreshTimeouts.delete(tokenKey);
-      void solveOneAtATime(context);
-    }, expiresIn - EXPIRES_BUFFER_IN_MS);
-    refreshTimeouts.set(tokenKey, timeout);
+  if (expiresIn > 0 && expiresIn < maxTokenLifetimeMs) {
+    const timeout = setTimeout(() => {
+      refreshTimeouts.delete(refreshKey);
+      if (!pauseWhenHidden || !isPageHidden()) {
+        refresh();
+        return;
+      }
+
+      // By the time the page is shown the token may have expired, so the
+      // refresh runs as soon as it is
+      deferredRefreshes.set(
+        refreshKey,
+        whenVisible(() => {
+          deferredRefreshes.delete(refreshKey);
+          refresh();
+        })
+      );
+    }, expiresIn - refreshBufferMs);
+    refreshTimeouts.set(refreshKey, timeout);
   } else {
-    onError?.('Invalid expiration time');
+    onError?.(new CapInvalidExpiryError('Invalid expiration time'));
   }
 }
 
+function startRefresh(context: GetCapTokenContext, token: CapToken) {
+  scheduleRefresh(context, context.tokenKey, getExpiresIn(token), () => {
+    // The caller's signal only applies to the solve it started
+    void solveOneAtATime({ ...context, signal: undefined });
+  });
+}
+
 async function solveOneAtATime(context: GetCapTokenContext) {
-  const { tokenKey } = context;
+  const { tokenKey, signal } = context;
+
+  const existing = solving.get(tokenKey);
+  if (existing) {
+    return existing.join(signal);
+  }
+
+  const release = () => {
+    if (solving.get(tokenKey) === shared) {
+      solving.delete(tokenKey);
+    }
+  };
+
+  const coordinator = context.crossTab ? getCrossTabCoordinator() : undefined;
+  if (coordinator) {
+    crossTabContexts.set(tokenKey, context);
+  }
 
-  let promise = solving.get(tokenKey);
-  if (!promise) {
-    promise = solve(context)
-      .then((token) => {
-        if (context.localStorageEnabled) {
-          setLocalStorageItem(tokenKey, token);
+  setTokenState(tokenKey, {
+    solving: true,
+    progress: 0,
+    progressDetail: null,
+    error: null
+  });
+
+  // The solve has its own signal, so the caller that started it can abort
+  // without failing the callers that joined it
+  const shared = shareTask<CapToken | undefined>((solveSignal) => {
+    const solveContext: GetCapTokenContext = {
+      ...context,
+      signal: solveSignal,
+      onProgress: (progress) => {
+        setTokenState(tokenKey, { progress });
+        context.onProgress?.(progress);
+      },
+      onProgressDetail: (progressDetail) => {
+        setTokenState(tokenKey, { progressDetail });
+        context.onProgressDetail?.(progressDetail);
+      }
+    };
+
+    // Free the slot right away so a new solve can start before this one
+    // unwinds
+    solveSignal.addEventListener('abort', release, { once: true });
+
+    return (
+      coordinator
+        ? coordinator.run(tokenKey, () => solve(solveContext), solveSignal)
+        : solve(solveContext)
+    )
+      .then(async (token) => {
+        const storage = getTokenStorage(context);
+        if (storage) {
+          await setStorageItem(storage, tokenKey, token);
         }
+        setTokenState(tokenKey, { token });
         context.onSolve?.(token);
 
         if (context.refreshAutomatically) {
-          startRefresh(context, token.expires);
+          startRefresh(context, token);
         }
 
         return token;
       })
       .catch((error) => {
-        context.onError?.(
-          error instanceof Error ? error.message : String(error)
-        );
+        if (error instanceof CapAbortError) {
+          throw error;
+        }
+        const capError = toCapError(error, 'solve');
+        setTokenState(tokenKey, { error: capError });
+        context.onError?.(capError);
         return undefined;
       })
       .finally(() => {
-        solving.delete(tokenKey);
+        solveSignal.removeEventListener('abort', release);
+        release();
+        if (!solving.has(tokenKey)) {
+          setTokenState(tokenKey, { solving: false });
+        }
       });
-    solving.set(tokenKey, promise);
+  });
+  solving.set(tokenKey, shared);
+
+  return shared.join(signal);
+}
+
+let crossTabSubscribed = false;
+
+function getCrossTabCoordinator(): TabCoordinator | undefined {
+  const coordinator = getTabCoordinator();
+
+  if (coordinator && !crossTabSubscribed) {
+    crossTabSubscribed = true;
+    coordinator.subscribe((message) => {
+      const context = crossTabContexts.get(message.tokenKey);
+      if (!context || solving.has(message.tokenKey)) {
+        // A solve in progress here picks up the result on its own
+        return;
+      }
+
+      if (message.type === 'solved') {
+        const storage = getTokenStorage(context);
+        if (storage) {
+          void setStorageItem(storage, message.tokenKey, message.token);
+        }
+        setTokenState(message.tokenKey, {
+          token: message.token,
+          error: null
+        });
+        if (context.refreshAutomatically) {
+          startRefresh(context, message.token);
+        }
+      } else if (message.type === 'reset') {
+        cancelRefresh(message.tokenKey);
+        resetTokenState(message.tokenKey);
+      }
+    });
+  }
+
+  return coordinator;
+}
+
+export function broadcastReset(tokenKey: string) {
+  getCrossTabCoordinator()?.broadcastReset(tokenKey);
+}
+
+export function subscribeCrossTab(listener: CrossTabListener) {
+  return getCrossTabCoordinator()?.subscribe(listener) ?? (() => {});
+}
+
+function getPoolKey(tokenKey: string) {
+  return `${tokenKey}${POOL_KEY_SUFFIX}`;
+}
+
+function scheduleIdle(callback: () => void) {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback);
+  } else {
+    setTimeout(callback, 0);
   }
+}
+
+type PoolContext = Pick<
+  GetCapTokenContext,
+  'tokenKey' | 'localStorageEnabled' | 'storage' | 'refreshBufferMs'
+>;
+
+// Drops expired tokens; synchronous so taking a token is atomic
+function getPool(context: PoolContext) {
+  const { tokenKey, refreshBufferMs } = context;
+  const pool = (pools.get(tokenKey) ?? []).filter(
+    (token) => !isTokenExpired(token, refreshBufferMs)
+  );
+  pools.set(tokenKey, pool);
+  return pool;
+}
+
+function loadPool(context: PoolContext): MaybePromise<CapToken[]> {
+  const { tokenKey } = context;
+  const storage = getTokenStorage(context);
+
+  if (pools.has(tokenKey) || !storage) {
+    return getPool(context);
+  }
+
+  return mapMaybePromise(
+    getStorageItems(storage, getPoolKey(tokenKey), context.refreshBufferMs),
+    (stored) => {
+      // Another caller may have loaded and changed the pool in the meantime
+      if (!pools.has(tokenKey)) {
+        pools.set(tokenKey, stored);
+      }
+      return getPool(context);
+    }
+  );
+}
+
+async function savePool(context: PoolContext) {
+  const { tokenKey } = context;
+  const storage = getTokenStorage(context);
+  if (storage) {
+    await setStorageItem(storage, getPoolKey(tokenKey), getPool(context));
+  }
+}
+
+function startPoolRefresh(context: GetCapTokenContext) {
+  const expiresIn = Math.min(...getPool(context).map(getExpiresIn));
+  if (Number.isFinite(expiresIn)) {
+    scheduleRefresh(context, getPoolKey(context.tokenKey), expiresIn, () => {
+      void fillPool(context);
+    });
+  }
+}
+
+/**
+ * Solves tokens one at a time until the pool holds `poolSize` tokens and every
+ * consumer waiting on an empty pool has been handed one.
+ */
+function fillPool(context: GetCapTokenContext) {
+  const { tokenKey, poolSize = 0 } = context;
+
+  const existing = poolFills.get(tokenKey);
+  if (existing) {
+    return existing;
+  }
+
+  let waiters = poolWaiters.get(tokenKey);
+  if (!waiters) {
+    waiters = [];
+    poolWaiters.set(tokenKey, waiters);
+  }
+  const pending = waiters;
+
+  const promise = (async () => {
+    await loadPool(context);
+
+    while (getPool(context).length < poolSize || pending.length > 0) {
+      setTokenState(tokenKey, { solving: true, error: null });
+      const token = await solveOneAtATime({
+        ...context,
+        tokenKey: getPoolKey(tokenKey),
+        localStorageEnabled: false,
+        storage: undefined,
+        refreshAutomatically: false,
+        // Pooled tokens are single-use, so tabs must never share them
+        crossTab: false,
+        signal: undefined,
+        onSolve: (token) => {
+          const waiter = pending.shift();
+          if (waiter) {
+            waiter(token);
+          } else {
+            getPool(context).push(token);
+            void savePool(context);
+          }
+          setTokenState(tokenKey, { token: getPool(context)[0] ?? null });
+          context.onSolve?.(token);
+        },
+        onError: (error) => {
+          setTokenState(tokenKey, { error });
+          context.onError?.(error);
+        }
+      });
+
+      if (!token) {
+        // The error was already reported through onError
+        for (const waiter of pending.splice(0)) {
+          waiter(undefined);
+        }
+        return;
+      }
+    }
+
+    if (context.refreshAutomatically) {
+      startPoolRefresh(context);
+    }
+  })().finally(() => {
+    poolFills.delete(tokenKey);
+    setTokenState(tokenKey, { solving: false });
+    // Serve consumers that started waiting after the loop finished
+    if (pending.length > 0) {
+      void fillPool(context);
+    }
+  });
+  poolFills.set(tokenKey, promise);
 
   return promise;
 }
 
+async function peekPool(context: GetCapTokenContext) {
+  const { tokenKey, signal } = context;
+
+  await loadPool(context);
+
+  for (;;) {
+    const pool = getPool(context);
+    const [token] = pool;
+    if (token) {
+      if (pool.length < (context.poolSize ?? 0)) {
+        scheduleIdle(() => void fillPool(context));
+      }
+      // A pool loaded from storage has not been shared yet
+      setTokenState(tokenKey, { token });
+      return token;
+    }
+
+    const fill = fillPool(context);
+    await raceSignal<unknown>(
+      solving.get(getPoolKey(tokenKey))?.promise ?? fill,
+      signal
+    );
+
+    if (!getPool(context).length && !poolFills.has(tokenKey)) {
+      return undefined;
+    }
+  }
+}
+
+async function takeFromPool(context: GetCapTokenContext) {
+  const { tokenKey, signal } = context;
+
+  await loadPool(context);
+
+  const token = getPool(context).shift();
+  if (token) {
+    setTokenState(tokenKey, { token: getPool(context)[0] ?? null });
+    await savePool(context);
+    scheduleIdle(() => void fillPool(context));
+    return token;
+  }
+
+  return new Promise<CapToken | undefined>((resolve, reject) => {
+    const waiters = poolWaiters.get(tokenKey) ?? [];
+    poolWaiters.set(tokenKey, waiters);
+
+    const handleAbort = () => {
+      const index = waiters.indexOf(waiter);
+      if (index !== -1) {
+        waiters.splice(index, 1);
+      }
+      reject(new CapAbortError(signal?.reason));
+    };
+
+    const waiter = (token: CapToken | undefined) => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(token);
+    };
+
+    waiters.push(waiter);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    void fillPool(context);
+  });
+}
+
 export async function getCapToken(props: GetCapTokenProps) {
   const context = {
     ...props,
     tokenKey: props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY
   };
 
-  if (props.localStorageEnabled) {
-    const token = getLocalStorageItem(context.tokenKey);
+  throwIfAborted(props.signal);
+  resolveEndpoints(props);
+  validateTimingOptions(props);
+
+  if (context.poolSize) {
+    return peekPool(context);
+  }
+
+  const storage = getTokenStorage(context);
+  if (storage) {
+    const token = await getStorageItem(
+      storage,
+      context.tokenKey,
+      context.refreshBufferMs
+    );
     if (token) {
       if (context.refreshAutomatically) {
-        startRefresh(context, token.expires);
+        startRefresh(context, token);
       }
+      setTokenState(context.tokenKey, { token });
       return token;
     }
+    // Aborted while reading async storage, before anything was solved
+    throwIfAborted(context.signal);
   }
 
   return solveOneAtATime(context);
 }
 
-export function cancelRefresh(tokenKey: string) {
-  const timeout = refreshTimeouts.get(tokenKey);
-  if (timeout) {
-    clearTimeout(timeout);
-    refreshTimeouts.delete(tokenKey);
+/**
+ * Takes a token out for single use. In pool mode the pool refills in the
+ * background, otherwise the stored token is cleared.
+ */
+export async function consumeCapToken(props: GetCapTokenProps) {
+  const context = {
+    ...props,
+    tokenKey: props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY
+  };
+
+  throwIfAborted(props.signal);
+  resolveEndpoints(props);
+  validateTimingOptions(props);
+
+  if (context.poolSize) {
+    return takeFromPool(context);
   }
+
+  const token = await getCapToken(context);
+  if (token) {
+    const storage = getTokenStorage(context);
+    if (storage) {
+      await removeStorageItem(storage, context.tokenKey);
+    }
+    cancelRefresh(context.tokenKey);
+    setTokenState(context.tokenKey, { token: null });
+  }
+  return token;
+}
+
+// Aborts with a TimeoutError after `timeoutMs`, or when `signal` aborts
+function createTimeoutSignal(signal?: AbortSignal, timeoutMs?: number) {
+  if (timeoutMs === undefined) {
+    return { signal, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const handleAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    handleAbort();
+  } else {
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  }
+
+  const timeout = setTimeout(() => {
+    controller.abort(
+      new DOMException(`No fresh token after ${timeoutMs}ms`, 'TimeoutError')
+    );
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  };
+}
+
+/**
+ * Resolves with a token that is safe to submit right now. Waits for a solve in
+ * progress for the `tokenKey`, checks the token is not about to expire and
+ * solves again if it is. With `consume` the token is taken out for single use.
+ */
+export async function getFreshCapToken(props: GetFreshCapTokenProps) {
+  const { timeoutMs, consume, currentToken, ...rest } = props;
+
+  throwIfAborted(props.signal);
+  resolveEndpoints(props);
+  validateTimingOptions(props);
+  checkDuration(timeoutMs, 'timeoutMs', 1);
+
+  const { signal, clear } = createTimeoutSignal(props.signal, timeoutMs);
+  const context = {
+    ...rest,
+    tokenKey: props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+    signal
+  };
+
+  try {
+    if (context.poolSize) {
+      // Pooled tokens are dropped once they are about to expire
+      return await (consume ? takeFromPool(context) : peekPool(context));
+    }
+
+    // A refresh or solve in flight is about to replace the stored token
+    const pending = solving.get(context.tokenKey);
+    const candidate = pending ? await pending.join(signal) : currentToken;
+    const token =
+      candidate && !isTokenExpired(candidate, context.refreshBufferMs)
+        ? candidate
+        : await getCapToken(context);
+
+    if (!token) {
+      return undefined;
+    }
+    if (isTokenExpired(token, context.refreshBufferMs)) {
+      context.onError?.(new CapInvalidExpiryError('Invalid expiration time'));
+      return undefined;
+    }
+
+    if (consume) {
+      const storage = getTokenStorage(context);
+      if (storage) {
+        await removeStorageItem(storage, context.tokenKey);
+      }
+      cancelRefresh(context.tokenKey);
+      setTokenState(context.tokenKey, { token: null });
+    } else {
+      setTokenState(context.tokenKey, { token });
+    }
+    return token;
+  } finally {
+    clear();
+  }
+}
+
+export function getCapTokenPool(
+  props: Pick<
+    GetCapTokenProps,
+    'tokenKey' | 'localStorageEnabled' | 'storage' | 'refreshBufferMs'
+  >
+) {
+  return loadPool({
+    ...props,
+    tokenKey: props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY
+  });
+}
+
+export async function clearCapTokenPool(
+  props: Pick<GetCapTokenProps, 'tokenKey' | 'localStorageEnabled' | 'storage'>
+) {
+  const tokenKey = props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY;
+  pools.delete(tokenKey);
+  const storage = getTokenStorage(props);
+  if (storage) {
+    await removeStorageItem(storage, getPoolKey(tokenKey));
+  }
+}
+
+/**
+ * Reads the stored token, or the next pooled one, into the state shared by
+ * every component using the `tokenKey`.
+ */
+export async function loadCapTokenState(
+  props: Pick<
+    GetCapTokenProps,
+    | 'tokenKey'
+    | 'localStorageEnabled'
+    | 'storage'
+    | 'poolSize'
+    | 'refreshBufferMs'
+  >
+) {
+  const tokenKey = props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY;
+  const storage = getTokenStorage(props);
+  const token = props.poolSize
+    ? (await getCapTokenPool(props))[0]
+    : storage
+      ? await getStorageItem(storage, tokenKey, props.refreshBufferMs)
+      : null;
+
+  if (token) {
+    setTokenState(tokenKey, { token });
+  }
+}
+
+/**
+ * Forgets the token for `tokenKey`: clears it and its pool from storage, stops
+ * refreshing it, and tells other tabs when `crossTab` is set.
+ */
+export function resetCapToken(
+  props: Pick<
+    GetCapTokenProps,
+    'tokenKey' | 'localStorageEnabled' | 'storage' | 'crossTab'
+  >
+) {
+  const tokenKey = props.tokenKey ?? DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY;
+  const storage = getTokenStorage(props);
+  if (storage) {
+    void removeStorageItem(storage, tokenKey);
+  }
+  void clearCapTokenPool(props);
+  if (props.crossTab) {
+    broadcastReset(tokenKey);
+  }
+  cancelRefresh(tokenKey);
+  resetTokenState(tokenKey);
+}
+
+export function cancelRefresh(tokenKey: string) {
+  clearRefresh(tokenKey);
+  clearRefresh(getPoolKey(tokenKey));
 }
@@ -1,3 +1,6 @@
+import type { CapError } from './errors.ts';
+import type { CapStorage, MaybePromise } from './storage.ts';
+
 export type Challenge = [string, string];
 
 export type ChallengeResponse = {
@@ -10,6 +13,8 @@ export type ChallengeResponse = {
     | Challenge[];
   token: string;
   expires: number;
+  /** The server time in milliseconds, to estimate clock skew. */
+  timestamp?: number;
 };
 
 export type RedeemResponse = {
@@ -17,33 +22,267 @@ export type RedeemResponse = {
   message?: string;
   token: string;
   expires: number;
+  /** The server time in milliseconds, to estimate clock skew. */
+  timestamp?: number;
+};
+
+export type CapToken = Pick<RedeemResponse, 'token' | 'expires'> & {
+  /**
+   * How far the server clock is ahead of the client's, in milliseconds. Every
+   * expiry check applies it, and it is unset when the server sent neither a
+   * `Date` header nor a `timestamp`.
+   */
+  clockOffset?: number;
 };
 
-export type CapToken = Pick<RedeemResponse, 'token' | 'expires'>;
+export type RetryPolicy = {
+  /** Total attempts per request, including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt. Defaults to 500. */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay. Defaults to 10000. */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the backoff delay. Defaults to true. */
+  jitter?: boolean;
+  /** Which HTTP statuses to retry. Defaults to 408, 429 and 5xx. */
+  retryOnStatus?: (status: number) => boolean;
+  /** Replaces the default retry decision for challenge and redeem requests. */
+  shouldRetry?: (
+    error: CapError,
+    attempt: number
+  ) => boolean | Promise<boolean>;
+  /**
+   * When redeeming fails, fetch a fresh challenge and solve again, up to
+   * `maxAttempts` times and only where `shouldRetry` allows it.
+   */
+  restartOnRedeemFailure?: boolean;
+};
+
+export type CapProgressPhase = 'challenge' | 'solve' | 'redeem';
+
+export type CapProgressDetail = {
+  phase: CapProgressPhase;
+  /** The same percentage passed to `onProgress`. */
+  progress: number;
+  completed: number;
+  /** Number of challenges, 0 until the challenge has been fetched. */
+  total: number;
+  /** Solve time of each challenge in milliseconds, `null` until solved. */
+  durations: Array<number | null>;
+  /** Hashes per second across all workers, `null` until measured. */
+  hashRate: number | null;
+  /** Estimated time left for solving in milliseconds, `null` until measured. */
+  etaMs: number | null;
+};
+
+/**
+ * Request headers, or a function returning them that is called before every
+ * request, for headers that change such as CSRF or auth tokens.
+ */
+export type CapHeadersInit =
+  | Record<string, string>
+  | (() => MaybePromise<Record<string, string>>);
+
+export type CapRequest = {
+  phase: 'challenge' | 'redeem';
+  url: string;
+  init: RequestInit;
+};
+
+/**
+ * Called before every request, retries included. Return a request to send it
+ * instead, or nothing to send the request as is.
+ */
+export type CapRequestInterceptor = (
+  request: CapRequest
+) => MaybePromise<CapRequest | undefined>;
+
+/**
+ * Called with every response before it is parsed. Return a response to use it
+ * instead, or throw to fail the request.
+ */
+export type CapResponseInterceptor = (
+  response: Response,
+  request: CapRequest
+) => MaybePromise<Response | undefined>;
+
+/**
+ * Where challenges are solved: a worker bundled inline as a blob, a worker
+ * loaded from `workerUrl`, or the main thread. `'auto'` tries them in that
+ * order.
+ */
+export type CapSolver = 'auto' | 'inline' | 'url' | 'main-thread';
+
+/**
+ * When `useCap` starts solving on its own: `'mount'` right away, `'intent'` on
+ * the first interaction with the element passed to `bind`, and `'manual'`
+ * only when `solve()` is called.
+ */
+export type CapTrigger = 'mount' | 'intent' | 'manual';
+
+/**
+ * Either a base URL the `challenge` and `redeem` paths are resolved against, or
+ * an object that can also name each URL explicitly. Explicit URLs take
+ * precedence over the ones derived from `baseUrl`.
+ */
+export type CapEndpoints =
+  | string
+  | URL
+  | {
+      baseUrl?: string | URL;
+      /** Cap standalone serves each site key under `<baseUrl>/<siteKey>/`. */
+      siteKey?: string;
+      challengeUrl?: string | URL;
+      redeemUrl?: string | URL;
+    };
 
 export type CapHookProps = {
-  endpoint: string;
+  /** Shorthand for `endpoints` with a base URL. */
+  endpoint?: string;
+  endpoints?: CapEndpoints;
   workersCount?: number;
+  /** Defaults to `'auto'`. */
+  solver?: CapSolver;
+  /**
+   * The worker script for the `'url'` solver, for pages whose CSP does not
+   * allow `blob:` workers.
+   */
+  workerUrl?: string | URL;
   localStorageEnabled?: boolean;
+  /**
+   * Where to persist tokens. Takes precedence over `localStorageEnabled`,
+   * which only switches the default localStorage adapter on or off.
+   */
+  storage?: CapStorage;
   tokenKey?: string;
+  /** Defaults to `'manual'`. */
+  trigger?: CapTrigger;
   onSolve?: (token: CapToken) => void;
-  onError?: (message: string) => void;
+  onError?: (error: CapError) => void;
   onProgress?: (progress: number) => void;
+  onProgressDetail?: (detail: CapProgressDetail) => void;
   onReset?: () => void;
-  challengeHeaders?: Record<string, string>;
-  redeemHeaders?: Record<string, string>;
+  challengeHeaders?: CapHeadersInit;
+  redeemHeaders?: CapHeadersInit;
+  /** Sends the challenge and redeem requests instead of the global `fetch`. */
+  fetch?: typeof fetch;
+  requestInterceptor?: CapRequestInterceptor;
+  responseInterceptor?: CapResponseInterceptor;
   refreshAutomatically?: boolean;
+  /**
+   * Refresh tokens this long before they expire. Stored tokens closer than
+   * this to expiring are not used. Defaults to 30 seconds.
+   */
+  refreshBufferMs?: number;
+  /**
+   * The least time a single challenge may take to solve, grown from the
+   * measured hash rate on slow devices. Defaults to 30 seconds.
+   */
+  challengeTimeoutMs?: number;
+  /** How long solving all the challenges may take. No deadline by default. */
+  solveTimeoutMs?: number;
+  /**
+   * Tokens that expire further out than this are reported as an invalid
+   * expiry instead of being refreshed. Defaults to 24 hours.
+   */
+  maxTokenLifetimeMs?: number;
+  /**
+   * Stop handing out challenges while the page is hidden, and hold off
+   * automatic refreshes until it is shown again.
+   */
+  pauseWhenHidden?: boolean;
+  retry?: RetryPolicy;
+  /**
+   * Keep this many pre-solved tokens for `tokenKey` so `consume()` can hand
+   * one out without waiting for a solve.
+   */
+  poolSize?: number;
+  /**
+   * Coordinate with other tabs using the same `tokenKey`: one tab solves while
+   * the others wait for its token, and solves and resets reach every tab.
+   */
+  crossTab?: boolean;
+};
+
+export type SolveOptions = {
+  signal?: AbortSignal;
+};
+
+export type FreshTokenOptions = SolveOptions & {
+  /**
+   * Give up after this long, rejecting with a `CapAbortError` whose reason is
+   * a `TimeoutError`.
+   */
+  timeoutMs?: number;
+  /** Take the token out for single use, as `consume()` does. */
+  consume?: boolean;
 };
 
+/**
+ * `'fetching'`, `'solving'` and `'redeeming'` follow the phases of a solve, and
+ * `'expired'` means the token reached its expiry without being replaced.
+ */
+export type CapStatus =
+  | 'idle'
+  | 'fetching'
+  | 'solving'
+  | 'redeeming'
+  | 'solved'
+  | 'error'
+  | 'expired';
+
 export type UseCap = {
-  solve: () => Promise<CapToken | undefined>;
+  /**
+   * Resolves with the current token while it is valid, and joins the solve in
+   * progress instead of starting another.
+   */
+  solve: (options?: SolveOptions) => Promise<CapToken | undefined>;
+  consume: (options?: SolveOptions) => Promise<CapToken | undefined>;
+  /**
+   * Waits for a solve in progress, then resolves with a token that is not about
+   * to expire, solving again if needed.
+   */
+  getFreshToken: (options?: FreshTokenOptions) => Promise<CapToken | undefined>;
   reset: () => void;
+  /**
+   * A ref callback for the form, or any element, where a focus, pointer down
+   * or key press starts solving with `trigger: 'intent'` while there is no
+   * token.
+   */
+  bind: (element: HTMLElement | null) => void;
+  status: CapStatus;
   solving: boolean;
+  /** Whether solving and refreshes are on hold because the page is hidden. */
+  paused: boolean;
   progress: number | null;
-  error: string | null;
+  progressDetail: CapProgressDetail | null;
+  error: CapError | null;
   token: CapToken | null;
 };
 
+export type CapState = Pick<
+  UseCap,
+  'token' | 'solving' | 'progress' | 'progressDetail' | 'error'
+>;
+
+/** What `useCapContext()` returns, shared by every component in the provider. */
+export type UseCapContext = Omit<UseCap, 'bind' | 'paused' | 'status'>;
+
+export type CapClientOptions = Omit<CapHookProps, 'trigger'>;
+
+export type CapTokenOptions = Omit<CapHookProps, 'trigger' | 'onReset'>;
+
+export type CapClientState = Pick<
+  UseCap,
+  | 'status'
+  | 'token'
+  | 'solving'
+  | 'paused'
+  | 'progress'
+  | 'progressDetail'
+  | 'error'
+>;
+
 export type CapWorkerMessage = {
   salt: string;
   target: string;
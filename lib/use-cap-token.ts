@@ -0,0 +1,105 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { isTokenExpired } from './api.ts';
+import { DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY } from './constants.ts';
+import { CapError, toCapError } from './errors.ts';
+import { type GetCapTokenProps, getCapToken } from './token.ts';
+import { getTokenState, subscribeTokenState } from './token-state.ts';
+import type { CapToken, CapTokenOptions } from './types.ts';
+
+type TokenResource = {
+  promise: Promise<CapToken | undefined>;
+  error?: CapError;
+};
+
+// Solves in flight, and failed ones until the next preload. Solved tokens are
+// read from the shared token state instead
+const resources = new Map<string, TokenResource>();
+
+function getTokenProps(options: CapTokenOptions): GetCapTokenProps & {
+  tokenKey: string;
+} {
+  const {
+    tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
+    localStorageEnabled = true,
+    refreshAutomatically = true
+  } = options;
+  return { ...options, tokenKey, localStorageEnabled, refreshAutomatically };
+}
+
+function loadToken(options: CapTokenOptions, retryFailed = false) {
+  const props = getTokenProps(options);
+  const { tokenKey, onError } = props;
+
+  const existing = resources.get(tokenKey);
+  if (existing && !(retryFailed && existing.error)) {
+    return existing;
+  }
+
+  const resource: TokenResource = {
+    // getCapToken joins a solve already in flight for the tokenKey
+    promise: getCapToken({
+      ...props,
+      onError: (error) => {
+        resource.error = error;
+        onError?.(error);
+      }
+    })
+      .then((token) => {
+        if (token) {
+          resources.delete(tokenKey);
+        } else {
+          // A joined solve reports its error to the caller that started it
+          resource.error ??=
+            getTokenState(tokenKey).error ??
+            new CapError('unknown', 'No token was solved', { phase: 'solve' });
+        }
+        return token;
+      })
+      .catch((error: unknown) => {
+        resource.error = toCapError(error, 'solve');
+        return undefined;
+      })
+  };
+  resources.set(tokenKey, resource);
+
+  return resource;
+}
+
+/**
+ * Starts solving the token for `tokenKey` ahead of `useCapToken()`, from a
+ * route loader for example. Takes the same options and resolves with the
+ * token, or `undefined` when solving failed. A solve that failed before is
+ * started again.
+ */
+export function preloadCapToken(options: CapTokenOptions) {
+  return loadToken(options, true).promise;
+}
+
+/**
+ * Suspends until the token for `tokenKey` is solved and returns it. Failures
+ * are thrown as a `CapError` to the nearest error boundary, and keep being
+ * thrown until `preloadCapToken()` starts a new solve, from the boundary's
+ * reset for example.
+ */
+export function useCapToken(options: CapTokenOptions): CapToken {
+  const { tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY, refreshBufferMs } =
+    options;
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeTokenState(tokenKey, listener),
+    [tokenKey]
+  );
+  const getSnapshot = useCallback(() => getTokenState(tokenKey), [tokenKey]);
+  const { token } = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  if (token && !isTokenExpired(token, refreshBufferMs)) {
+    return token;
+  }
+
+  const resource = loadToken(options);
+  if (resource.error) {
+    // Kept until the next preload, as React renders again after an error and
+    // must see the same one rather than start a new solve
+    throw resource.error;
+  }
+  throw resource.promise;
+}
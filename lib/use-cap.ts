@@ -1,109 +1,40 @@
-import { useCallback, useEffect, useState } from 'react';
-import { getLocalStorageItem, removeLocalStorageItem } from './api.ts';
-import { DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY } from './constants.ts';
-import { cancelRefresh, getCapToken } from './token.ts';
-import type { CapHookProps, CapToken, UseCap } from './types.ts';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { createCapClient } from './client.ts';
+import type { CapHookProps, UseCap } from './types.ts';
 
 export function useCap(props: CapHookProps): UseCap {
-  const {
-    endpoint,
-    workersCount,
-    localStorageEnabled = true,
-    tokenKey = DEFAULT_CAP_TOKEN_LOCAL_STORAGE_KEY,
-    refreshAutomatically = true,
-    onSolve,
-    onError,
-    onProgress,
-    onReset
-  } = props;
-  const [progress, setProgress] = useState<number | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [solving, setSolving] = useState(false);
-  const [token, setToken] = useState<CapToken | null>(() =>
-    localStorageEnabled ? getLocalStorageItem(tokenKey) : null
+  const { trigger = 'manual', ...options } = props;
+  const [client] = useState(() => createCapClient(options));
+  const state = useSyncExternalStore(
+    client.subscribe,
+    client.getState,
+    client.getState
   );
+  const [intentTarget, bind] = useState<HTMLElement | null>(null);
 
-  const handleProgress = useCallback(
-    (progress: number) => {
-      setProgress(progress);
-      onProgress?.(progress);
-    },
-    [onProgress]
-  );
-
-  const reset = useCallback(() => {
-    setToken(null);
-    if (localStorageEnabled) {
-      removeLocalStorageItem(tokenKey);
-    }
-    cancelRefresh(tokenKey);
-    setProgress(0);
-    setError(null);
-    onReset?.();
-  }, [localStorageEnabled, tokenKey, onReset]);
-
-  const solve = useCallback(async () => {
-    setSolving(true);
-    setProgress(0);
-    setError(null);
-
-    try {
-      const result = await getCapToken({
-        endpoint,
-        workersCount,
-        localStorageEnabled,
-        tokenKey,
-        refreshAutomatically,
-        onProgress: handleProgress,
-        onSolve: (newToken) => {
-          setToken(newToken);
-          onSolve?.(newToken);
-        },
-        onError: (errorMessage) => {
-          setError(errorMessage);
-          onError?.(errorMessage);
-        }
-      });
+  useEffect(() => {
+    client.setOptions(options);
+  });
 
-      if (result) {
-        setToken(result);
-        return result;
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      setError(errorMessage);
-      onError?.(errorMessage);
-    } finally {
-      setSolving(false);
+  useEffect(() => {
+    if (trigger === 'mount' && !state.token && !state.error) {
+      void client.solve().catch(() => {});
     }
-  }, [
-    endpoint,
-    workersCount,
-    localStorageEnabled,
-    tokenKey,
-    refreshAutomatically,
-    handleProgress,
-    onSolve,
-    onError
-  ]);
+  }, [client, trigger, state.token, state.error]);
 
   useEffect(() => {
-    if (localStorageEnabled) {
-      const storedToken = getLocalStorageItem(tokenKey);
-      if (storedToken) {
-        setToken(storedToken);
-      }
+    if (trigger === 'intent' && intentTarget) {
+      return client.bind(intentTarget);
     }
-  }, [localStorageEnabled, tokenKey]);
+  }, [client, trigger, intentTarget]);
 
   return {
-    token,
-    error,
-    solving,
-    solve,
-    reset,
-    progress
+    ...state,
+    solve: client.solve,
+    consume: client.consume,
+    getFreshToken: client.getFreshToken,
+    reset: client.reset,
+    bind
   };
 }
 
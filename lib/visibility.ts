@@ -0,0 +1,33 @@
+// Page visibility, for options that hold off work while the page is hidden.
+// Outside the browser the page counts as always visible
+
+export function isPageHidden() {
+  return (
+    typeof document !== 'undefined' && document.visibilityState === 'hidden'
+  );
+}
+
+export function subscribeVisibility(listener: (hidden: boolean) => void) {
+  if (typeof document === 'undefined') {
+    return () => {};
+  }
+
+  const handleChange = () => {
+    listener(isPageHidden());
+  };
+  document.addEventListener('visibilitychange', handleChange);
+  return () => {
+    document.removeEventListener('visibilitychange', handleChange);
+  };
+}
+
+// Calls back the next time the page is shown, returns a function that cancels
+export function whenVisible(callback: () => void) {
+  const unsubscribe = subscribeVisibility((hidden) => {
+    if (!hidden) {
+      unsubscribe();
+      callback();
+    }
+  });
+  return unsubscribe;
+}
@@ -0,0 +1,498 @@
+import {
+  MAX_CHALLENGE_ATTEMPTS,
+  WORKER_IDLE_TIMEOUT_IN_MS
+} from './constants.ts';
+import {
+  CapAbortError,
+  CapWorkerCrashError,
+  throwIfAborted
+} from './errors.ts';
+import { createProgressDetail, createSolveProgress } from './progress.ts';
+import { createMainThreadSolver, type SolverWorker } from './solver.ts';
+import { createSolveTimer, type SolveTimer } from './timing.ts';
+import type {
+  CapHookProps,
+  CapProgressDetail,
+  CapSolver,
+  CapWorkerMessage,
+  CapWorkerResult,
+  Challenge,
+  SolveOptions
+} from './types.ts';
+import { isPageHidden, subscribeVisibility } from './visibility.ts';
+// Not ideal, due to this bug: https://github.com/vitejs/vite/issues/15618
+// https://github.com/vitejs/vite/discussions/15547
+import CapWorker from './worker.ts?worker&inline';
+
+export type SolverBackend = {
+  key: string;
+  create: () => SolverWorker;
+};
+
+type Batch = {
+  workersCount: number;
+  timer: SolveTimer;
+  pauseWhenHidden: boolean;
+  // In order of preference, the last one is used once the others failed
+  backends: SolverBackend[];
+};
+
+type Task = {
+  batch: Batch;
+  challenge: Challenge;
+  attempt: number;
+  resolve: (nonce: number, durationMs: number) => void;
+  reject: (error: unknown) => void;
+};
+
+type PoolWorker = {
+  backend: SolverBackend;
+  worker: SolverWorker;
+  // Whether the worker solved anything yet, an error before that means the
+  // backend does not work on this page
+  solved: boolean;
+  task?: Task;
+  startedAt?: number;
+  timeout?: ReturnType<typeof setTimeout>;
+};
+
+export type RunChallengesOptions = {
+  workersCount: number;
+  solver?: CapSolver;
+  workerUrl?: string | URL;
+  // Solves on this backend only, in place of the ones for `solver`
+  backend?: SolverBackend;
+  challengeTimeoutMs?: number;
+  solveTimeoutMs?: number;
+  // Hand out no challenges while the page is hidden, the ones being solved
+  // still finish
+  pauseWhenHidden?: boolean;
+  signal?: AbortSignal;
+  onSolved?: (
+    index: number,
+    nonce: number,
+    durationMs: number,
+    detail: CapProgressDetail
+  ) => void;
+};
+
+// Shared by every solve so concurrent calls never oversubscribe the CPU
+const workers: PoolWorker[] = [];
+const queue: Task[] = [];
+const batches = new Set<Batch>();
+// Backends that failed to start, skipped by later solves until disposed
+const unavailableBackends = new Set<string>();
+let idleTimeout: ReturnType<typeof setTimeout> | undefined;
+
+const inlineBackend: SolverBackend = {
+  key: 'inline',
+  // This needs to all be inline for bundlers to properly detect the worker file
+  create: () => new CapWorker()
+};
+
+const mainThreadBackend: SolverBackend = {
+  key: 'main-thread',
+  create: createMainThreadSolver
+};
+
+function createUrlBackend(workerUrl: string | URL): SolverBackend {
+  return {
+    key: `url:${String(workerUrl)}`,
+    create: () => new Worker(workerUrl, { type: 'module' })
+  };
+}
+
+function getBackends(
+  solver: CapSolver,
+  workerUrl?: string | URL
+): SolverBackend[] {
+  const urlBackend = workerUrl ? createUrlBackend(workerUrl) : undefined;
+
+  switch (solver) {
+    case 'inline':
+      return [inlineBackend];
+    case 'url':
+      return urlBackend ? [urlBackend] : [];
+    case 'main-thread':
+      return [mainThreadBackend];
+    default:
+      return urlBackend
+        ? [inlineBackend, urlBackend, mainThreadBackend]
+        : [inlineBackend, mainThreadBackend];
+  }
+}
+
+function isLastBackend(batch: Batch, backend: SolverBackend) {
+  return batch.backends[batch.backends.length - 1]?.key === backend.key;
+}
+
+function getBackend(batch: Batch) {
+  return (
+    batch.backends.find((backend) => !unavailableBackends.has(backend.key)) ??
+    (batch.backends[batch.backends.length - 1] as SolverBackend)
+  );
+}
+
+function terminateWorker(worker: SolverWorker) {
+  try {
+    worker.terminate();
+  } catch (error) {
+    console.error('[cap] error terminating worker:', error);
+  }
+}
+
+// The largest workersCount requested by a solve in flight. The main thread
+// only ever runs one solver
+function getTargetSize() {
+  let size = 0;
+  for (const batch of batches) {
+    size = Math.max(
+      size,
+      getBackend(batch) === mainThreadBackend ? 1 : batch.workersCount
+    );
+  }
+  return size;
+}
+
+function attachWorker(backend: SolverBackend, worker: SolverWorker) {
+  const entry: PoolWorker = { backend, worker, solved: false };
+
+  entry.worker.onmessage = ({ data }: CapWorkerResult) => {
+    const { task } = entry;
+    if (!task || !data.found) {
+      return;
+    }
+
+    // Fall back to the time seen from here for workers that do not report it
+    const durationMs =
+      Number(data.durationMs) || Date.now() - (entry.startedAt ?? Date.now());
+
+    clearTimeout(entry.timeout);
+    entry.solved = true;
+    entry.task = undefined;
+    entry.timeout = undefined;
+    task.resolve(data.nonce, durationMs);
+    dispatch();
+  };
+
+  entry.worker.onerror = (err) => {
+    console.error('[cap worker] error:', err);
+
+    const { task } = entry;
+    if (task && !entry.solved && !isLastBackend(task.batch, backend)) {
+      // Workers blocked by a CSP can fail after being created, so try the
+      // next backend with the same challenge
+      unavailableBackends.add(backend.key);
+      removeWorker(entry);
+      queue.unshift(task);
+      dispatch();
+      return;
+    }
+
+    failWorker(
+      entry,
+      new CapWorkerCrashError(
+        `Error in worker: ${typeof err === 'object' ? (err?.message ?? 'unknown') : String(err)}`,
+        { cause: err }
+      )
+    );
+  };
+
+  workers.push(entry);
+  return entry;
+}
+
+function spawnWorker(batch: Batch): PoolWorker | undefined {
+  while (true) {
+    const backend = getBackend(batch);
+    try {
+      return attachWorker(backend, backend.create());
+    } catch (error) {
+      console.error('[cap] Failed to create worker:', error);
+
+      if (isLastBackend(batch, backend)) {
+        // Carry on with the workers we already have
+        if (!workers.some((w) => w.task?.batch === batch)) {
+          cancelBatch(
+            batch,
+            new CapWorkerCrashError('Worker creation failed', { cause: error })
+          );
+        }
+        return undefined;
+      }
+
+      unavailableBackends.add(backend.key);
+    }
+  }
+}
+
+function removeWorker(entry: PoolWorker) {
+  clearTimeout(entry.timeout);
+  entry.task = undefined;
+  entry.timeout = undefined;
+  workers.splice(workers.indexOf(entry), 1);
+  terminateWorker(entry.worker);
+}
+
+// A worker that timed out or crashed is discarded, a new one is created lazily
+// the next time a challenge is handed out
+function failWorker(entry: PoolWorker, error: unknown) {
+  const { task } = entry;
+  removeWorker(entry);
+  task?.reject(error);
+  dispatch();
+}
+
+function runTask(entry: PoolWorker, task: Task) {
+  const [salt, target] = task.challenge;
+  const message: CapWorkerMessage = { salt, target };
+
+  entry.task = task;
+  entry.startedAt = Date.now();
+  entry.timeout = setTimeout(
+    () => {
+      if (task.attempt >= MAX_CHALLENGE_ATTEMPTS) {
+        failWorker(entry, task.batch.timer.createError('challenge'));
+        return;
+      }
+
+      // A stuck worker is discarded and the challenge starts over on a new one
+      removeWorker(entry);
+      task.attempt++;
+      queue.unshift(task);
+      dispatch();
+    },
+    task.batch.timer.getTimeout(task.challenge, task.attempt)
+  );
+  entry.worker.postMessage(message);
+}
+
+function dispatch() {
+  for (const task of [...queue]) {
+    // Cancelling a batch while spawning removes its other tasks
+    if (
+      !queue.includes(task) ||
+      (task.batch.pauseWhenHidden && isPageHidden())
+    ) {
+      continue;
+    }
+
+    const backend = getBackend(task.batch);
+    let entry = workers.find((w) => !w.task && w.backend.key === backend.key);
+
+    if (!entry) {
+      if (workers.length >= getTargetSize()) {
+        // Make room by dropping an idle worker of another backend
+        const idle = workers.find((w) => !w.task);
+        if (!idle) {
+          continue;
+        }
+        removeWorker(idle);
+      }
+
+      entry = spawnWorker(task.batch);
+      if (!entry) {
+        continue;
+      }
+    }
+
+    queue.splice(queue.indexOf(task), 1);
+    runTask(entry, task);
+  }
+
+  scheduleIdleTeardown();
+}
+
+function scheduleIdleTeardown() {
+  clearTimeout(idleTimeout);
+  idleTimeout = undefined;
+
+  if (
+    workers.length > 0 &&
+    queue.length === 0 &&
+    workers.every((w) => !w.task)
+  ) {
+    idleTimeout = setTimeout(disposeWorkers, WORKER_IDLE_TIMEOUT_IN_MS);
+    // Waiting to tear down must not keep a Node process alive
+    (idleTimeout as { unref?: () => void }).unref?.();
+  }
+}
+
+// Drops a batch's queued challenges and stops the workers still solving them
+function cancelBatch(batch: Batch, error: unknown) {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    const task = queue[i];
+    if (task?.batch === batch) {
+      queue.splice(i, 1);
+      task.reject(error);
+    }
+  }
+
+  for (const entry of [...workers]) {
+    const { task } = entry;
+    if (task?.batch === batch) {
+      removeWorker(entry);
+      task.reject(error);
+    }
+  }
+
+  dispatch();
+}
+
+/**
+ * Solves the challenges on the shared worker pool. Challenges are handed out
+ * one at a time as workers become free, and the results keep the order of
+ * `challenges`.
+ */
+export async function runChallenges(
+  challenges: Challenge[],
+  options: RunChallengesOptions
+): Promise<number[]> {
+  const {
+    workersCount,
+    solver = 'auto',
+    workerUrl,
+    backend,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    pauseWhenHidden = false,
+    signal,
+    onSolved
+  } = options;
+
+  throwIfAborted(signal);
+
+  const backends = backend ? [backend] : getBackends(solver, workerUrl);
+  if (backends.length === 0) {
+    throw new CapWorkerCrashError('The url solver requires a workerUrl');
+  }
+
+  // Measures the hash rate for both the progress and the timeouts
+  const progress = createSolveProgress(challenges);
+  const batch: Batch = {
+    workersCount,
+    timer: createSolveTimer(progress, challengeTimeoutMs),
+    pauseWhenHidden,
+    backends
+  };
+  const promises = challenges.map(
+    (challenge, index) =>
+      new Promise<number>((resolve, reject) => {
+        queue.push({
+          batch,
+          challenge,
+          attempt: 1,
+          resolve: (nonce, durationMs) => {
+            const detail = progress.solved(index, nonce, durationMs);
+            onSolved?.(index, nonce, durationMs, detail);
+            resolve(nonce);
+          },
+          reject
+        });
+      })
+  );
+
+  const handleAbort = () => {
+    cancelBatch(batch, new CapAbortError(signal?.reason));
+  };
+
+  batches.add(batch);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+  const unsubscribeVisibility = pauseWhenHidden
+    ? subscribeVisibility((hidden) => {
+        if (!hidden) {
+          dispatch();
+        }
+      })
+    : undefined;
+  const deadline =
+    solveTimeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          cancelBatch(batch, batch.timer.createError('deadline'));
+        }, solveTimeoutMs);
+  dispatch();
+
+  try {
+    return await Promise.all(promises);
+  } catch (error) {
+    // One failed challenge fails the solve, so stop working on the rest
+    cancelBatch(batch, error);
+    throw error;
+  } finally {
+    clearTimeout(deadline);
+    unsubscribeVisibility?.();
+    signal?.removeEventListener('abort', handleAbort);
+    batches.delete(batch);
+  }
+}
+
+export async function solveChallenges(
+  context: Pick<
+    CapHookProps,
+    | 'onProgress'
+    | 'onProgressDetail'
+    | 'solver'
+    | 'workerUrl'
+    | 'challengeTimeoutMs'
+    | 'solveTimeoutMs'
+    | 'pauseWhenHidden'
+  > &
+    Required<Pick<CapHookProps, 'workersCount'>> &
+    Pick<RunChallengesOptions, 'backend'> &
+    SolveOptions,
+  challenges: Challenge[]
+) {
+  const {
+    onProgress,
+    onProgressDetail,
+    workersCount,
+    solver,
+    workerUrl,
+    backend,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    pauseWhenHidden,
+    signal
+  } = context;
+
+  throwIfAborted(signal);
+
+  onProgressDetail?.(createProgressDetail('solve', challenges.length));
+
+  return runChallenges(challenges, {
+    workersCount,
+    solver,
+    workerUrl,
+    backend,
+    challengeTimeoutMs,
+    solveTimeoutMs,
+    pauseWhenHidden,
+    signal,
+    onSolved: (_index, _nonce, _durationMs, detail) => {
+      onProgress?.(detail.progress);
+      onProgressDetail?.(detail);
+    }
+  });
+}
+
+/**
+ * Terminates every worker in the shared pool. Solves still in flight are
+ * rejected, later solves create new workers as needed and detect again which
+ * solver works on the page.
+ */
+export function disposeWorkers() {
+  clearTimeout(idleTimeout);
+  idleTimeout = undefined;
+  unavailableBackends.clear();
+
+  const error = new CapWorkerCrashError('Workers disposed');
+  for (const task of queue.splice(0)) {
+    task.reject(error);
+  }
+  for (const entry of [...workers]) {
+    const { task } = entry;
+    removeWorker(entry);
+    task?.reject(error);
+  }
+}
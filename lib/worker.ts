@@ -1,4 +1,5 @@
 import wasmModule, { solve_pow } from '@cap.js/wasm/browser/cap_wasm.js';
+import { solveWithSubtleCrypto } from './solver.ts';
 import type { CapWorkerMessage } from './types.ts';
 
 let wasmLoaded: boolean;
@@ -71,48 +72,20 @@ async function fallbackSolver({
 }: {
   data: CapWorkerMessage;
 }) {
-  let nonce = 0;
-  const batchSize = 50000;
-  const encoder = new TextEncoder();
+  const startTime = performance.now();
 
-  const targetBytes = new Uint8Array(target.length / 2);
-  for (let k = 0; k < targetBytes.length; k++) {
-    targetBytes[k] = parseInt(target.substring(k * 2, k * 2 + 2), 16);
-  }
-  const targetBytesLength = targetBytes.length;
-
-  while (true) {
-    try {
-      for (let i = 0; i < batchSize; i++) {
-        const inputString = salt + nonce;
-        const inputBytes = encoder.encode(inputString);
-
-        const hashBuffer = await crypto.subtle.digest('SHA-256', inputBytes);
-
-        const hashBytes = new Uint8Array(hashBuffer, 0, targetBytesLength);
-
-        let matches = true;
-        for (let k = 0; k < targetBytesLength; k++) {
-          if (hashBytes[k] !== targetBytes[k]) {
-            matches = false;
-            break;
-          }
-        }
-
-        if (matches) {
-          self.postMessage({ nonce, found: true });
-          return;
-        }
-
-        nonce++;
-      }
-    } catch (error) {
-      console.error('[cap worker]', error);
-      self.postMessage({
-        found: false,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return;
-    }
+  try {
+    const nonce = await solveWithSubtleCrypto({ salt, target });
+    self.postMessage({
+      nonce,
+      found: true,
+      durationMs: (performance.now() - startTime).toFixed(2)
+    });
+  } catch (error) {
+    console.error('[cap worker]', error);
+    self.postMessage({
+      found: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
   }
 }
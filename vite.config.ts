@@ -3,14 +3,20 @@ import react from '@vitejs/plugin-react';
 import dts from 'vite-plugin-dts';
 import { defineConfig } from 'vitest/config';
 
+// The standalone worker for the `url` solver is built on its own, in a second
+// pass, so it shares no chunk with the other entries and is a single file
+const isWorkerBuild = (mode: string) => mode === 'worker';
+
 export default defineConfig(({ mode }) => ({
-  plugins: [
-    react(),
-    dts({
-      rollupTypes: true,
-      tsconfigPath: resolve(__dirname, 'tsconfig.lib.json')
-    })
-  ],
+  plugins: isWorkerBuild(mode)
+    ? []
+    : [
+        react(),
+        dts({
+          rollupTypes: true,
+          tsconfigPath: resolve(__dirname, 'tsconfig.lib.json')
+        })
+      ],
   envDir: __dirname,
   worker: {
     format: 'es'
@@ -21,15 +27,21 @@ export default defineConfig(({ mode }) => ({
   base: './',
   build: {
     copyPublicDir: false,
-    emptyOutDir: true,
+    emptyOutDir: !isWorkerBuild(mode),
     outDir: resolve(__dirname, 'dist'),
     lib: {
-      entry: resolve(__dirname, 'lib/index.ts'),
+      entry: isWorkerBuild(mode)
+        ? { worker: resolve(__dirname, 'lib/worker.ts') }
+        : {
+            index: resolve(__dirname, 'lib/index.ts'),
+            node: resolve(__dirname, 'lib/node.ts'),
+            'node-worker': resolve(__dirname, 'lib/node-worker.ts')
+          },
       formats: ['es'],
-      fileName: () => 'index.js'
+      fileName: (_format, entryName) => `${entryName}.js`
     },
     rollupOptions: {
-      external: ['react', 'react-dom', 'react/jsx-runtime'],
+      external: ['react', 'react-dom', 'react/jsx-runtime', /^node:/],
       output: {
         assetFileNames: 'index.[ext]'
       }